@@ -5,6 +5,7 @@ import {
     LanguageService
 } from 'vscode-html-languageservice';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { tokenizeTag } from './cottonTokenizer';
 
 export interface CottonComponent {
     name: string;          // Component name without 'c-' prefix
@@ -23,6 +24,17 @@ export interface CursorContext {
     existingAttributes: Set<string>;
 }
 
+export interface CottonAttribute {
+    name: string;          // Attribute name without any leading ':' / '::'
+    hasColon: boolean;     // Single leading ':' - a Django expression
+    isEscaped: boolean;    // Leading '::' - passed through literally as ':name'
+    start: number;         // Offset of the name as written, including colons
+    end: number;
+    value: string | null;  // Unquoted value text, or null for a valueless attribute
+    valueStart: number;    // Span of the value inside its quotes (-1 when there's no value)
+    valueEnd: number;
+}
+
 export class CottonParser {
     private htmlLanguageService: LanguageService;
 
@@ -133,62 +145,67 @@ export class CottonParser {
         const tagEnd = this.findTagEndOffset(content, node.start);
         if (offset < node.start || offset > tagEnd) return null;
 
-        const nameSearchStart = node.start + 1 + node.tag.length; // skip '<' and tag name
-        const tagContent = content.substring(nameSearchStart, tagEnd);
-
-        const attrRegex = /(:{0,2}[a-zA-Z_][\w-]*)(\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?/g;
-        let match;
-
-        while ((match = attrRegex.exec(tagContent)) !== null) {
-            const fullName = match[1];
-            const nameStart = nameSearchStart + match.index;
-            const nameEnd = nameStart + fullName.length;
-
-            if (offset >= nameStart && offset <= nameEnd) {
-                // `::foo` is an escaped literal attribute (e.g. Alpine.js `::class`), not a
-                // Cotton dynamic-expression attribute - only a single leading `:` means dynamic.
-                const isEscaped = fullName.startsWith('::');
-                const hasColon = !isEscaped && fullName.startsWith(':');
-                const strippedName = fullName.replace(/^:+/, '');
-
-                return {
-                    name: strippedName,
-                    hasColon,
-                    start: nameStart,
-                    end: nameEnd
-                };
-            }
-        }
+        const attribute = this.getAttributes(content, node).find(a => offset >= a.start && offset <= a.end);
+        if (!attribute) return null;
 
-        return null;
+        return {
+            name: attribute.name,
+            hasColon: attribute.hasColon,
+            start: attribute.start,
+            end: attribute.end
+        };
+    }
+
+    /**
+     * List every attribute on the opening tag of the given node, in source order. `start`/`end`
+     * span the full attribute name as written (including any leading `:`/`::`), while `name` is
+     * the bare prop name with the colons stripped.
+     */
+    getAttributes(content: string, node: Node): CottonAttribute[] {
+        if (!node.tag) return [];
+
+        const tag = tokenizeTag(content, node.start);
+        if (!tag) return [];
+
+        return tag.attributes.map(attribute => ({
+            name: attribute.name,
+            hasColon: attribute.isDynamic,
+            isEscaped: attribute.isEscaped,
+            start: attribute.nameStart,
+            end: attribute.nameEnd,
+            value: attribute.value,
+            valueStart: attribute.valueStart,
+            valueEnd: attribute.valueEnd
+        }));
+    }
+
+    /**
+     * The attribute on the opening tag of the given node whose value the offset is inside, e.g.
+     * `size` while typing `<c-button size="s|">`. Null when the offset isn't in a value.
+     */
+    getAttributeValueContext(content: string, node: Node, offset: number): CottonAttribute | null {
+        return this.getAttributes(content, node).find(a =>
+            a.value !== null && offset >= a.valueStart && offset <= a.valueEnd
+        ) || null;
     }
 
     /**
      * Find the value (and its offset span) of a specific attribute on the opening tag of the
      * given node, e.g. reading `is="foo"` off a `<c-component is="foo" />` tag. Returns null if
-     * the attribute isn't present or has no quoted value.
+     * the attribute isn't present or has no value.
      */
     getAttributeValue(content: string, node: Node, attrName: string): { value: string; hasColon: boolean; start: number; end: number } | null {
         if (!node.tag) return null;
 
-        const tagEnd = this.findTagEndOffset(content, node.start);
-        const nameSearchStart = node.start + 1 + node.tag.length;
-        const tagContent = content.substring(nameSearchStart, tagEnd);
-
-        const escapedAttrName = attrName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        const attrRegex = new RegExp(`(:?)${escapedAttrName}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`);
-        const match = attrRegex.exec(tagContent);
-        if (!match) return null;
-
-        const value = match[2] !== undefined ? match[2] : match[3];
-        const quoteOffsetInMatch = match[0].length - value.length - 1; // just before the closing quote
-        const valueStart = nameSearchStart + match.index + quoteOffsetInMatch;
+        const tag = tokenizeTag(content, node.start);
+        const attribute = tag?.attributes.find(a => a.name === attrName && !a.isEscaped && a.value !== null);
+        if (!attribute || attribute.value === null) return null;
 
         return {
-            value,
-            hasColon: match[1] === ':',
-            start: valueStart,
-            end: valueStart + value.length
+            value: attribute.value,
+            hasColon: attribute.isDynamic,
+            start: attribute.valueStart,
+            end: attribute.valueEnd
         };
     }
 
@@ -0,0 +1,536 @@
+/**
+ * A small Cotton/Django-aware template tokenizer. Unlike the HTML language service (which
+ * knows nothing about `{{ }}` / `{% %}`) or one-off regexes (which break on `>` inside an
+ * attribute value, multi-line tags, `{% %}` inside a tag, or commented-out markup), this reads
+ * the template once into a flat, source-ordered list of typed tokens that every consumer -
+ * component indexing, usage indexing, prop lookup - can share.
+ *
+ * All offsets are absolute offsets into the tokenized string; `end` offsets are exclusive.
+ */
+
+export interface AttributeToken {
+    name: string;          // Attribute name without any leading ':' / '::'
+    rawName: string;       // Attribute name as written
+    isDynamic: boolean;    // Single leading ':' - a Django expression
+    isEscaped: boolean;    // Leading '::' - passed through literally as ':name'
+    nameStart: number;     // Offset of the name as written, including colons
+    nameEnd: number;
+    value: string | null;  // Unquoted value text, or null for a valueless attribute
+    valueStart: number;    // Span of the value inside its quotes (-1 when there's no value)
+    valueEnd: number;
+}
+
+export interface TagToken {
+    type: 'tag';
+    name: string;          // Full tag name, e.g. 'div' or 'c-card.header'
+    isCotton: boolean;     // Name starts with 'c-'
+    isClosing: boolean;    // </name>
+    isSelfClosing: boolean;// <name ... />
+    start: number;
+    end: number;
+    nameStart: number;
+    nameEnd: number;
+    attributes: AttributeToken[];
+}
+
+export interface FilterToken {
+    name: string;
+    argument: string | null;
+    start: number;
+    end: number;
+}
+
+export interface VariableToken {
+    type: 'variable';
+    start: number;
+    end: number;
+    expression: string;    // Everything between the braces, trimmed
+    /** The leading lookup, e.g. `item.title` in `{{ item.title|upper }}`; `name` is just `item`. */
+    variable: { path: string; name: string; start: number; end: number } | null;
+    filters: FilterToken[];
+}
+
+export interface TemplateTagToken {
+    type: 'templateTag';
+    name: string;          // e.g. 'if', 'endfor', 'url'
+    nameStart: number;
+    nameEnd: number;
+    args: string;          // Everything after the name, trimmed
+    argsStart: number;
+    start: number;
+    end: number;
+}
+
+export interface CommentToken {
+    type: 'comment';
+    kind: 'html' | 'django' | 'commentBlock';   // <!-- -->, {# #}, {% comment %}...{% endcomment %}
+    body: string;
+    bodyStart: number;
+    start: number;
+    end: number;
+}
+
+export type TemplateToken = TagToken | VariableToken | TemplateTagToken | CommentToken;
+
+/** Elements whose content is raw text: only template syntax inside them is tokenized. */
+const RAW_TEXT_ELEMENTS = ['script', 'style'];
+
+export function tokenizeTemplate(content: string): TemplateToken[] {
+    const tokens: TemplateToken[] = [];
+    let i = 0;
+
+    while (i < content.length) {
+        if (content[i] === '{') {
+            const templateToken = readTemplateSyntax(content, i);
+            if (templateToken) {
+                tokens.push(templateToken);
+                i = templateToken.end;
+
+                // Nothing inside {% verbatim %} is template syntax.
+                if (templateToken.type === 'templateTag' && templateToken.name === 'verbatim') {
+                    const endMatch = /\{%\s*endverbatim\b[^%]*%\}/g;
+                    endMatch.lastIndex = i;
+                    const match = endMatch.exec(content);
+                    if (!match) break;
+                    i = match.index;
+                }
+                continue;
+            }
+        }
+
+        if (content[i] === '<') {
+            if (content.startsWith('<!--', i)) {
+                const close = content.indexOf('-->', i + 4);
+                const bodyEnd = close === -1 ? content.length : close;
+                const end = close === -1 ? content.length : close + 3;
+                tokens.push({
+                    type: 'comment',
+                    kind: 'html',
+                    body: content.substring(i + 4, bodyEnd),
+                    bodyStart: i + 4,
+                    start: i,
+                    end
+                });
+                // An HTML comment only hides markup from the browser - Django still runs the
+                // template syntax inside it, so that's read like any other.
+                readTemplateSyntaxUntil(content, i + 4, bodyEnd, tokens);
+                i = end;
+                continue;
+            }
+
+            const tag = readTag(content, i, tokens);
+            if (tag) {
+                tokens.push(tag);
+                i = tag.end;
+
+                if (!tag.isClosing && !tag.isSelfClosing && RAW_TEXT_ELEMENTS.includes(tag.name.toLowerCase())) {
+                    i = readRawText(content, i, tag.name.toLowerCase(), tokens);
+                }
+                continue;
+            }
+        }
+
+        i++;
+    }
+
+    return tokens.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Read the single tag starting at `start` (which must be a `<`), e.g. to get the attributes
+ * of a node the HTML language service already located. Template syntax inside the tag is
+ * skipped over rather than returned.
+ */
+export function tokenizeTag(content: string, start: number): TagToken | null {
+    return readTag(content, start, []);
+}
+
+/** The component's `<c-vars ...>` declaration, if it has one. */
+export function findCVarsTag(tokens: TemplateToken[]): TagToken | null {
+    for (const token of tokens) {
+        if (token.type === 'tag' && token.name === 'c-vars' && !token.isClosing) {
+            return token;
+        }
+    }
+    return null;
+}
+
+function readTemplateSyntax(content: string, start: number): VariableToken | TemplateTagToken | CommentToken | null {
+    const opener = content.substring(start, start + 2);
+
+    if (opener === '{#') {
+        const close = content.indexOf('#}', start + 2);
+        if (close === -1) return null;
+        return {
+            type: 'comment',
+            kind: 'django',
+            body: content.substring(start + 2, close),
+            bodyStart: start + 2,
+            start,
+            end: close + 2
+        };
+    }
+
+    if (opener === '{{') {
+        const close = content.indexOf('}}', start + 2);
+        if (close === -1) return null;
+        return readVariable(content, start, close + 2);
+    }
+
+    if (opener === '{%') {
+        const close = content.indexOf('%}', start + 2);
+        if (close === -1) return null;
+
+        const inner = content.substring(start + 2, close);
+        const nameMatch = inner.match(/^(\s*)([\w.-]+)(\s*)/);
+        if (!nameMatch) return null;
+
+        const nameStart = start + 2 + nameMatch[1].length;
+        const name = nameMatch[2];
+        const argsStart = start + 2 + nameMatch[0].length;
+
+        // {% comment %} ... {% endcomment %} is a comment, whatever it contains.
+        if (name === 'comment') {
+            const endRegex = /\{%\s*endcomment\s*%\}/g;
+            endRegex.lastIndex = close + 2;
+            const endMatch = endRegex.exec(content);
+            const bodyEnd = endMatch ? endMatch.index : content.length;
+            return {
+                type: 'comment',
+                kind: 'commentBlock',
+                body: content.substring(close + 2, bodyEnd),
+                bodyStart: close + 2,
+                start,
+                end: endMatch ? endMatch.index + endMatch[0].length : content.length
+            };
+        }
+
+        return {
+            type: 'templateTag',
+            name,
+            nameStart,
+            nameEnd: nameStart + name.length,
+            args: content.substring(argsStart, close).trim(),
+            argsStart,
+            start,
+            end: close + 2
+        };
+    }
+
+    return null;
+}
+
+function readVariable(content: string, start: number, end: number): VariableToken {
+    const innerStart = start + 2;
+    const inner = content.substring(innerStart, end - 2);
+
+    // Split on `|` outside string literals: `{{ a|default:"x|y"|upper }}` has two filters.
+    const segments: { text: string; start: number }[] = [];
+    let segmentStart = 0;
+    let quoteChar = '';
+    for (let i = 0; i < inner.length; i++) {
+        const char = inner[i];
+        if (quoteChar) {
+            if (char === quoteChar) quoteChar = '';
+        } else if (char === '"' || char === "'") {
+            quoteChar = char;
+        } else if (char === '|') {
+            segments.push({ text: inner.substring(segmentStart, i), start: innerStart + segmentStart });
+            segmentStart = i + 1;
+        }
+    }
+    segments.push({ text: inner.substring(segmentStart), start: innerStart + segmentStart });
+
+    let variable: VariableToken['variable'] = null;
+    const lookupMatch = segments[0].text.match(/^(\s*)([a-zA-Z_]\w*(?:\.\w+)*)/);
+    if (lookupMatch) {
+        const lookupStart = segments[0].start + lookupMatch[1].length;
+        const lookupPath = lookupMatch[2];
+        const name = lookupPath.split('.')[0];
+        variable = { path: lookupPath, name, start: lookupStart, end: lookupStart + name.length };
+    }
+
+    const filters: FilterToken[] = [];
+    for (const segment of segments.slice(1)) {
+        const filterMatch = segment.text.match(/^(\s*)(\w+)(?::([\s\S]*))?/);
+        if (!filterMatch) continue;
+        const filterStart = segment.start + filterMatch[1].length;
+        filters.push({
+            name: filterMatch[2],
+            argument: filterMatch[3] !== undefined ? filterMatch[3].trim() : null,
+            start: filterStart,
+            end: filterStart + filterMatch[2].length
+        });
+    }
+
+    return {
+        type: 'variable',
+        start,
+        end,
+        expression: inner.trim(),
+        variable,
+        filters
+    };
+}
+
+/**
+ * Read an opening or closing tag at `start`. Template syntax inside the tag (between
+ * attributes or inside a quoted value) is skipped over as an opaque unit - so a `>` or a quote
+ * inside `{{ }}` / `{% %}` doesn't end the tag or value early - and pushed onto `nested`.
+ */
+function readTag(content: string, start: number, nested: TemplateToken[]): TagToken | null {
+    const nameMatch = /^<(\/?)([a-zA-Z][\w.:-]*)/.exec(content.substring(start, start + 256));
+    if (!nameMatch) return null;
+
+    const isClosing = nameMatch[1] === '/';
+    const name = nameMatch[2];
+    const nameStart = start + 1 + nameMatch[1].length;
+    const tag: TagToken = {
+        type: 'tag',
+        name,
+        isCotton: name.startsWith('c-'),
+        isClosing,
+        isSelfClosing: false,
+        start,
+        end: content.length,
+        nameStart,
+        nameEnd: nameStart + name.length,
+        attributes: []
+    };
+
+    let i = tag.nameEnd;
+    while (i < content.length) {
+        const char = content[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (char === '>') {
+            tag.end = i + 1;
+            return tag;
+        }
+
+        if (char === '/' && content[i + 1] === '>') {
+            tag.isSelfClosing = true;
+            tag.end = i + 2;
+            return tag;
+        }
+
+        if (char === '{') {
+            const templateToken = readTemplateSyntax(content, i);
+            if (templateToken) {
+                nested.push(templateToken);
+                i = templateToken.end;
+                continue;
+            }
+        }
+
+        // A stray `<` means this tag was never closed - stop before the next one.
+        if (char === '<') {
+            tag.end = i;
+            return tag;
+        }
+
+        const attribute = readAttribute(content, i, nested);
+        if (!attribute.rawName) {
+            i++; // stray quote or `=` - not an attribute
+            continue;
+        }
+        tag.attributes.push(attribute);
+        i = Math.max(attribute.valueEnd === -1 ? attribute.nameEnd : attribute.valueEnd, i + 1);
+        if (attribute.value !== null && (content[i] === '"' || content[i] === "'")) {
+            i++; // closing quote
+        }
+    }
+
+    return tag;
+}
+
+function readAttribute(content: string, start: number, nested: TemplateToken[]): AttributeToken {
+    let i = start;
+    while (i < content.length && !/[\s"'>=<]/.test(content[i]) && !(content[i] === '/' && content[i + 1] === '>')) {
+        if (content[i] === '{' && /[{%#]/.test(content[i + 1] || '')) break;
+        i++;
+    }
+
+    const rawName = content.substring(start, i);
+    const isEscaped = rawName.startsWith('::');
+    const attribute: AttributeToken = {
+        name: rawName.replace(/^:+/, ''),
+        rawName,
+        isDynamic: !isEscaped && rawName.startsWith(':'),
+        isEscaped,
+        nameStart: start,
+        nameEnd: i,
+        value: null,
+        valueStart: -1,
+        valueEnd: -1
+    };
+
+    let j = i;
+    while (j < content.length && /\s/.test(content[j])) j++;
+    if (content[j] !== '=') return attribute;
+    j++;
+    while (j < content.length && /\s/.test(content[j])) j++;
+
+    const quoteChar = content[j];
+    if (quoteChar === '"' || quoteChar === "'") {
+        const valueStart = j + 1;
+        let k = valueStart;
+        while (k < content.length && content[k] !== quoteChar) {
+            if (content[k] === '{') {
+                const templateToken = readTemplateSyntax(content, k);
+                if (templateToken) {
+                    nested.push(templateToken);
+                    k = templateToken.end;
+                    continue;
+                }
+            }
+            k++;
+        }
+        attribute.value = content.substring(valueStart, k);
+        attribute.valueStart = valueStart;
+        attribute.valueEnd = k;
+        return attribute;
+    }
+
+    let k = j;
+    while (k < content.length && !/[\s>]/.test(content[k])) k++;
+    attribute.value = content.substring(j, k);
+    attribute.valueStart = j;
+    attribute.valueEnd = k;
+    return attribute;
+}
+
+/** Skip the raw content of a <script>/<style>, still picking up template syntax inside it. */
+function readRawText(content: string, start: number, tagName: string, tokens: TemplateToken[]): number {
+    const closeRegex = new RegExp(`</${tagName}\\s*>`, 'ig');
+    closeRegex.lastIndex = start;
+    const closeMatch = closeRegex.exec(content);
+    const end = closeMatch ? closeMatch.index : content.length;
+
+    readTemplateSyntaxUntil(content, start, end, tokens);
+    return end;
+}
+
+/** Read just the template syntax (no markup) between `start` and `end`. */
+function readTemplateSyntaxUntil(content: string, start: number, end: number, tokens: TemplateToken[]): void {
+    let i = start;
+    while (i < end) {
+        if (content[i] === '{') {
+            const templateToken = readTemplateSyntax(content, i);
+            if (templateToken) {
+                tokens.push(templateToken);
+                i = templateToken.end;
+                continue;
+            }
+        }
+        i++;
+    }
+}
+
+export interface TemplateBlock {
+    open: TemplateTagToken;
+    branches: TemplateTagToken[];   // {% elif %} / {% else %} / {% empty %} / {% plural %}
+    close: TemplateTagToken | null;
+    children: TemplateBlock[];
+}
+
+export interface BlockStructureError {
+    token: TemplateTagToken;
+    message: string;
+}
+
+/** Built-in Django block tags, mapped to the intermediate tags each one allows. */
+export const DJANGO_BLOCK_TAGS: Record<string, string[]> = {
+    if: ['elif', 'else'],
+    for: ['empty'],
+    with: [],
+    block: [],
+    filter: [],
+    spaceless: [],
+    autoescape: [],
+    ifchanged: ['else'],
+    ifequal: ['else'],
+    ifnotequal: ['else'],
+    verbatim: [],
+    blocktrans: ['plural'],
+    blocktranslate: ['plural'],
+    localize: [],
+    localtime: [],
+    timezone: [],
+    cache: []
+};
+
+/**
+ * Pair up `{% tag %}` / `{% endtag %}` block tags into a tree, collecting anything that doesn't
+ * balance: a block that's never closed, an end tag with no matching opener, an end tag that
+ * closes the wrong block, or an intermediate tag (`{% else %}`) outside a block that allows it.
+ * Only Django's built-in block tags are checked; unknown (custom) tags are ignored.
+ */
+export function buildBlockStructure(tokens: TemplateToken[]): { blocks: TemplateBlock[]; errors: BlockStructureError[] } {
+    const root: TemplateBlock[] = [];
+    const errors: BlockStructureError[] = [];
+    const stack: TemplateBlock[] = [];
+
+    const attach = (block: TemplateBlock) => {
+        (stack.length > 0 ? stack[stack.length - 1].children : root).push(block);
+    };
+
+    for (const token of tokens) {
+        if (token.type !== 'templateTag') continue;
+        const name = token.name;
+
+        if (name in DJANGO_BLOCK_TAGS) {
+            const block: TemplateBlock = { open: token, branches: [], close: null, children: [] };
+            attach(block);
+            stack.push(block);
+            continue;
+        }
+
+        if (name.startsWith('end') && name.slice(3) in DJANGO_BLOCK_TAGS) {
+            const openName = name.slice(3);
+            const matchIndex = findLastIndex(stack, b => b.open.name === openName);
+
+            if (matchIndex === -1) {
+                errors.push({ token, message: `{% ${name} %} has no matching {% ${openName} %}` });
+                continue;
+            }
+
+            // Anything opened after the matching block was never closed.
+            for (const unclosed of stack.splice(matchIndex + 1).reverse()) {
+                errors.push({
+                    token: unclosed.open,
+                    message: `{% ${unclosed.open.name} %} is closed by {% ${name} %} instead of {% end${unclosed.open.name} %}`
+                });
+            }
+            stack.pop()!.close = token;
+            continue;
+        }
+
+        const owner = Object.keys(DJANGO_BLOCK_TAGS).filter(blockName => DJANGO_BLOCK_TAGS[blockName].includes(name));
+        if (owner.length > 0) {
+            const current = stack[stack.length - 1];
+            if (current && owner.includes(current.open.name)) {
+                current.branches.push(token);
+            } else {
+                errors.push({ token, message: `{% ${name} %} must be inside a {% ${owner.join(' %} or {% ')} %} block` });
+            }
+        }
+    }
+
+    for (const unclosed of stack) {
+        errors.push({ token: unclosed.open, message: `{% ${unclosed.open.name} %} is never closed (expected {% end${unclosed.open.name} %})` });
+    }
+
+    return { blocks: root, errors };
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+    for (let i = items.length - 1; i >= 0; i--) {
+        if (predicate(items[i])) return i;
+    }
+    return -1;
+}
@@ -0,0 +1,127 @@
+import * as path from 'path';
+import { TextDocuments } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { CottonParser } from './cottonParser';
+import { ComponentIndex } from './utils/componentIndex';
+import { UsageIndex } from './utils/usageIndex';
+import { getCacheDirectory } from './utils/indexCache';
+import { DiscoveredTemplatePath, discoverTemplatePaths } from './utils/djangoSettings';
+import { CottonSettings, defaultSettings } from './settings';
+import { CodeActionHandler } from './handlers/codeActions';
+import { CompletionHandler } from './handlers/completion';
+import { DefinitionHandler } from './handlers/definition';
+import { DiagnosticsHandler } from './handlers/diagnostics';
+import { DocumentSymbolHandler } from './handlers/documentSymbols';
+import { HoverHandler } from './handlers/hover';
+import { InlayHintHandler } from './handlers/inlayHints';
+import { ReferencesHandler } from './handlers/references';
+import { RenameHandler } from './handlers/rename';
+import { SemanticTokensHandler } from './handlers/semanticTokens';
+import { SignatureHelpHandler } from './handlers/signatureHelp';
+import { WorkspaceSymbolHandler } from './handlers/workspaceSymbols';
+
+/**
+ * Everything the server knows about one workspace folder: its settings (each folder has its
+ * own `cotton.config.json` and `templatePaths`), its component and usage indexes, and the
+ * handlers that answer requests from documents inside it. A single-folder workspace, or a
+ * client that doesn't send workspace folders at all, has exactly one.
+ */
+export class CottonWorkspace {
+    readonly uri: string;
+    readonly componentIndex: ComponentIndex;
+    readonly usageIndex: UsageIndex;
+
+    readonly codeActionHandler: CodeActionHandler;
+    readonly completionHandler: CompletionHandler;
+    readonly definitionHandler: DefinitionHandler;
+    readonly diagnosticsHandler: DiagnosticsHandler;
+    readonly documentSymbolHandler: DocumentSymbolHandler;
+    readonly hoverHandler: HoverHandler;
+    readonly inlayHintHandler: InlayHintHandler;
+    readonly referencesHandler: ReferencesHandler;
+    readonly renameHandler: RenameHandler;
+    readonly semanticTokensHandler: SemanticTokensHandler;
+    readonly signatureHelpHandler: SignatureHelpHandler;
+    readonly workspaceSymbolHandler: WorkspaceSymbolHandler;
+
+    settings: CottonSettings = defaultSettings;
+
+    /**
+     * Where `settings.templatePaths` came from: explicit configuration, the project's Django
+     * settings (with what was found there, for the "Show Template Paths" command), or the
+     * built-in default when neither gave any.
+     */
+    templatePathsSource: 'configured' | 'discovered' | 'default' = 'default';
+    discoveredTemplatePaths: DiscoveredTemplatePath[] = [];
+
+    private discovery: Promise<DiscoveredTemplatePath[]> | null = null;
+
+    /**
+     * `cacheDirectory` is the client's storage folder. The indexes are only persisted when it's
+     * given, each folder in its own subfolder.
+     */
+    constructor(
+        readonly root: string,
+        parser: CottonParser,
+        documents: TextDocuments<TextDocument>,
+        cacheDirectory?: string
+    ) {
+        this.uri = URI.file(root).toString();
+        this.componentIndex = new ComponentIndex(root, defaultSettings.templatePaths, documents);
+        this.usageIndex = new UsageIndex(root);
+
+        if (cacheDirectory) {
+            const folderCacheDirectory = getCacheDirectory(root, cacheDirectory);
+            this.componentIndex.enablePersistentCache(path.join(folderCacheDirectory, 'component-index.json'));
+            this.usageIndex.enablePersistentCache(path.join(folderCacheDirectory, 'usage-index.json'));
+        }
+
+        this.codeActionHandler = new CodeActionHandler(parser, this.componentIndex);
+        this.completionHandler = new CompletionHandler(parser, this.componentIndex, this.usageIndex);
+        this.definitionHandler = new DefinitionHandler(parser, this.componentIndex);
+        this.diagnosticsHandler = new DiagnosticsHandler(parser, this.componentIndex, this.usageIndex);
+        this.documentSymbolHandler = new DocumentSymbolHandler(parser);
+        this.hoverHandler = new HoverHandler(parser, this.componentIndex, this.usageIndex);
+        this.inlayHintHandler = new InlayHintHandler(parser, this.componentIndex);
+        this.referencesHandler = new ReferencesHandler(parser, this.componentIndex, this.usageIndex);
+        this.renameHandler = new RenameHandler(parser, this.componentIndex, this.usageIndex, this.referencesHandler, documents);
+        this.semanticTokensHandler = new SemanticTokensHandler(parser, this.componentIndex);
+        this.signatureHelpHandler = new SignatureHelpHandler(parser, this.componentIndex);
+        this.workspaceSymbolHandler = new WorkspaceSymbolHandler(this.componentIndex);
+    }
+
+    updateSettings(settings: CottonSettings) {
+        this.settings = settings;
+        this.componentIndex.updateSettings(settings.templatePaths);
+        this.diagnosticsHandler.updateSettings({
+            unknownPropSeverity: settings.unknownPropSeverity,
+            blockTagSeverity: settings.blockTagSeverity,
+            passThroughAttributes: settings.passThroughAttributes
+        });
+        this.inlayHintHandler.updateSettings(settings.defaultedPropHints);
+        this.hoverHandler.updateSettings(settings.hoverPreviewLines);
+    }
+
+    /**
+     * The template paths in the folder's Django settings. Discovery globs the whole folder, so
+     * it runs once and is reused across configuration changes until forgetDiscoveredTemplatePaths.
+     */
+    discoverTemplatePaths(): Promise<DiscoveredTemplatePath[]> {
+        if (!this.discovery) {
+            this.discovery = discoverTemplatePaths(this.root);
+        }
+        return this.discovery;
+    }
+
+    /** Called when a settings module in the folder changes, so the next configure re-reads them. */
+    forgetDiscoveredTemplatePaths() {
+        this.discovery = null;
+    }
+
+    /** Whether a file (fs path) is inside this folder. */
+    contains(filePath: string): boolean {
+        const relativePath = path.relative(this.root, filePath);
+        return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    }
+}
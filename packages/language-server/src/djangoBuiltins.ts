@@ -0,0 +1,121 @@
+/**
+ * Reference data for Django's built-in template filters and tags, used for completion and
+ * hover inside `{{ }}` / `{% %}`. Documentation is a one-line summary plus an example, in
+ * the same shape as the Cotton directive docs in CompletionHandler.
+ */
+
+export interface DjangoBuiltin {
+    name: string;
+    usage: string;
+    documentation: string;
+}
+
+export const DJANGO_FILTERS: DjangoBuiltin[] = [
+    { name: 'add', usage: '{{ value|add:"2" }}', documentation: 'Adds the argument to the value (numbers, or concatenates lists/strings).' },
+    { name: 'addslashes', usage: '{{ value|addslashes }}', documentation: 'Adds backslashes before quotes.' },
+    { name: 'capfirst', usage: '{{ value|capfirst }}', documentation: 'Capitalizes the first character of the value.' },
+    { name: 'center', usage: '{{ value|center:"15" }}', documentation: 'Centers the value in a field of the given width.' },
+    { name: 'cut', usage: '{{ value|cut:" " }}', documentation: 'Removes all occurrences of the argument from the string.' },
+    { name: 'date', usage: '{{ value|date:"D d M Y" }}', documentation: 'Formats a date according to the given format string.' },
+    { name: 'default', usage: '{{ value|default:"nothing" }}', documentation: 'Uses the argument if the value evaluates to False.' },
+    { name: 'default_if_none', usage: '{{ value|default_if_none:"nothing" }}', documentation: 'Uses the argument only if the value is None.' },
+    { name: 'dictsort', usage: '{{ value|dictsort:"name" }}', documentation: 'Sorts a list of dictionaries by the given key.' },
+    { name: 'dictsortreversed', usage: '{{ value|dictsortreversed:"name" }}', documentation: 'Sorts a list of dictionaries by the given key, in reverse order.' },
+    { name: 'divisibleby', usage: '{{ value|divisibleby:"3" }}', documentation: 'Returns True if the value is divisible by the argument.' },
+    { name: 'escape', usage: '{{ value|escape }}', documentation: 'Escapes HTML in the value (applied once, at output).' },
+    { name: 'escapejs', usage: '{{ value|escapejs }}', documentation: 'Escapes characters for use in JavaScript strings.' },
+    { name: 'escapeseq', usage: '{{ value|escapeseq|join:"," }}', documentation: 'Escapes each element of a sequence.' },
+    { name: 'filesizeformat', usage: '{{ value|filesizeformat }}', documentation: 'Formats a byte count as a human-readable file size (e.g. "13 KB").' },
+    { name: 'first', usage: '{{ value|first }}', documentation: 'Returns the first item in a list.' },
+    { name: 'floatformat', usage: '{{ value|floatformat:2 }}', documentation: 'Rounds a floating-point number to the given number of decimal places.' },
+    { name: 'force_escape', usage: '{{ value|force_escape }}', documentation: 'Escapes HTML immediately, rather than at output.' },
+    { name: 'get_digit', usage: '{{ value|get_digit:"2" }}', documentation: 'Returns the requested digit of a whole number, counting from the right.' },
+    { name: 'iriencode', usage: '{{ value|iriencode }}', documentation: 'Converts an IRI to a string suitable for a URL.' },
+    { name: 'join', usage: '{{ value|join:" // " }}', documentation: 'Joins a list with the given string.' },
+    { name: 'json_script', usage: '{{ value|json_script:"hello-data" }}', documentation: 'Outputs the value as JSON inside a `<script>` tag with the given id.' },
+    { name: 'last', usage: '{{ value|last }}', documentation: 'Returns the last item in a list.' },
+    { name: 'length', usage: '{{ value|length }}', documentation: 'Returns the length of the value (string or list).' },
+    { name: 'linebreaks', usage: '{{ value|linebreaks }}', documentation: 'Converts line breaks to `<br>` and blank lines to paragraphs.' },
+    { name: 'linebreaksbr', usage: '{{ value|linebreaksbr }}', documentation: 'Converts all newlines to `<br>`.' },
+    { name: 'linenumbers', usage: '{{ value|linenumbers }}', documentation: 'Displays text with line numbers.' },
+    { name: 'ljust', usage: '{{ value|ljust:"10" }}', documentation: 'Left-aligns the value in a field of the given width.' },
+    { name: 'lower', usage: '{{ value|lower }}', documentation: 'Converts a string to lowercase.' },
+    { name: 'make_list', usage: '{{ value|make_list }}', documentation: 'Turns the value into a list of characters (or digits).' },
+    { name: 'phone2numeric', usage: '{{ value|phone2numeric }}', documentation: 'Converts a phone number with letters to its numeric equivalent.' },
+    { name: 'pluralize', usage: '{{ count|pluralize:"y,ies" }}', documentation: 'Returns a plural suffix if the value is not 1.' },
+    { name: 'pprint', usage: '{{ value|pprint }}', documentation: 'A wrapper around `pprint.pprint`, for debugging.' },
+    { name: 'random', usage: '{{ value|random }}', documentation: 'Returns a random item from a list.' },
+    { name: 'rjust', usage: '{{ value|rjust:"10" }}', documentation: 'Right-aligns the value in a field of the given width.' },
+    { name: 'safe', usage: '{{ value|safe }}', documentation: 'Marks the value as not requiring HTML escaping.' },
+    { name: 'safeseq', usage: '{{ value|safeseq|join:"," }}', documentation: 'Marks each element of a sequence as safe.' },
+    { name: 'slice', usage: '{{ value|slice:":2" }}', documentation: 'Returns a slice of a list, using Python slice syntax.' },
+    { name: 'slugify', usage: '{{ value|slugify }}', documentation: 'Converts to a URL slug: lowercase ASCII, hyphens for spaces.' },
+    { name: 'stringformat', usage: '{{ value|stringformat:"E" }}', documentation: 'Formats the value using a printf-style format specifier.' },
+    { name: 'striptags', usage: '{{ value|striptags }}', documentation: 'Strips all HTML tags.' },
+    { name: 'time', usage: '{{ value|time:"H:i" }}', documentation: 'Formats a time according to the given format string.' },
+    { name: 'timesince', usage: '{{ value|timesince:other }}', documentation: 'Formats a date as the time since that date (e.g. "4 days, 6 hours").' },
+    { name: 'timeuntil', usage: '{{ value|timeuntil:other }}', documentation: 'Formats a date as the time until that date.' },
+    { name: 'title', usage: '{{ value|title }}', documentation: 'Converts a string to title case.' },
+    { name: 'truncatechars', usage: '{{ value|truncatechars:9 }}', documentation: 'Truncates a string to the given number of characters, ending in "…".' },
+    { name: 'truncatechars_html', usage: '{{ value|truncatechars_html:9 }}', documentation: 'Like truncatechars, but aware of HTML tags.' },
+    { name: 'truncatewords', usage: '{{ value|truncatewords:2 }}', documentation: 'Truncates a string after the given number of words.' },
+    { name: 'truncatewords_html', usage: '{{ value|truncatewords_html:2 }}', documentation: 'Like truncatewords, but aware of HTML tags.' },
+    { name: 'unordered_list', usage: '{{ value|unordered_list }}', documentation: 'Renders a nested list as an HTML unordered list (without the outer `<ul>`).' },
+    { name: 'upper', usage: '{{ value|upper }}', documentation: 'Converts a string to uppercase.' },
+    { name: 'urlencode', usage: '{{ value|urlencode }}', documentation: 'Escapes the value for use in a URL.' },
+    { name: 'urlize', usage: '{{ value|urlize }}', documentation: 'Converts URLs and email addresses in text into clickable links.' },
+    { name: 'urlizetrunc', usage: '{{ value|urlizetrunc:15 }}', documentation: 'Like urlize, but truncates link text longer than the given length.' },
+    { name: 'wordcount', usage: '{{ value|wordcount }}', documentation: 'Returns the number of words.' },
+    { name: 'wordwrap', usage: '{{ value|wordwrap:5 }}', documentation: 'Wraps words at the given line length.' },
+    { name: 'yesno', usage: '{{ value|yesno:"yeah,no,maybe" }}', documentation: 'Maps True, False and None to the given comma-separated strings.' }
+];
+
+export const DJANGO_TAGS: DjangoBuiltin[] = [
+    { name: 'autoescape', usage: '{% autoescape off %}…{% endautoescape %}', documentation: 'Controls auto-escaping for the enclosed block.' },
+    { name: 'block', usage: '{% block content %}…{% endblock %}', documentation: 'Defines a block that child templates can override.' },
+    { name: 'blocktranslate', usage: '{% blocktranslate %}Hello {{ name }}{% endblocktranslate %}', documentation: 'Marks a block of text, which may contain variables, for translation.' },
+    { name: 'cache', usage: '{% cache 500 sidebar %}…{% endcache %}', documentation: 'Caches the enclosed content for the given number of seconds.' },
+    { name: 'comment', usage: '{% comment %}…{% endcomment %}', documentation: 'Ignores everything between `{% comment %}` and `{% endcomment %}`.' },
+    { name: 'csrf_token', usage: '{% csrf_token %}', documentation: 'Outputs a hidden CSRF token input, for POST forms.' },
+    { name: 'cycle', usage: "{% cycle 'odd' 'even' %}", documentation: 'Produces one of its arguments each time it is encountered, cycling through them.' },
+    { name: 'debug', usage: '{% debug %}', documentation: 'Outputs debugging information, including the current context.' },
+    { name: 'extends', usage: '{% extends "base.html" %}', documentation: 'Signals that this template extends a parent template.' },
+    { name: 'filter', usage: '{% filter upper %}…{% endfilter %}', documentation: 'Applies one or more filters to the enclosed content.' },
+    { name: 'firstof', usage: '{% firstof var1 var2 "fallback" %}', documentation: 'Outputs the first argument that is not False.' },
+    { name: 'for', usage: '{% for item in items %}…{% empty %}…{% endfor %}', documentation: 'Loops over each item in a sequence. `{% empty %}` renders when the sequence is empty.' },
+    { name: 'if', usage: '{% if condition %}…{% elif other %}…{% else %}…{% endif %}', documentation: 'Renders its block if the condition is true.' },
+    { name: 'ifchanged', usage: '{% ifchanged %}…{% endifchanged %}', documentation: 'Checks if a value has changed from the last iteration of a loop.' },
+    { name: 'include', usage: '{% include "name.html" with key=value %}', documentation: 'Loads a template and renders it with the current context.' },
+    { name: 'load', usage: '{% load static %}', documentation: 'Loads a custom template tag set.' },
+    { name: 'localize', usage: '{% localize on %}…{% endlocalize %}', documentation: 'Enables or disables localization of the enclosed values.' },
+    { name: 'localtime', usage: '{% localtime on %}…{% endlocaltime %}', documentation: 'Enables or disables conversion of datetimes to the current time zone.' },
+    { name: 'lorem', usage: '{% lorem 2 w random %}', documentation: 'Displays random "lorem ipsum" Latin text.' },
+    { name: 'now', usage: '{% now "jS F Y H:i" %}', documentation: 'Displays the current date and/or time in the given format.' },
+    { name: 'querystring', usage: '{% querystring page=2 %}', documentation: 'Outputs a URL-encoded query string based on the current request, with the given changes.' },
+    { name: 'regroup', usage: '{% regroup cities by country as country_list %}', documentation: 'Regroups a list of alike objects by a common attribute.' },
+    { name: 'resetcycle', usage: '{% resetcycle %}', documentation: 'Resets a previous `{% cycle %}` so it restarts from its first item.' },
+    { name: 'spaceless', usage: '{% spaceless %}…{% endspaceless %}', documentation: 'Removes whitespace between HTML tags in the enclosed block.' },
+    { name: 'static', usage: '{% static "images/logo.png" %}', documentation: 'Links to a static file (requires `{% load static %}`).' },
+    { name: 'templatetag', usage: '{% templatetag openblock %}', documentation: 'Outputs one of the characters used to compose template tags.' },
+    { name: 'timezone', usage: '{% timezone "Europe/Paris" %}…{% endtimezone %}', documentation: 'Sets the current time zone for the enclosed block.' },
+    { name: 'translate', usage: '{% translate "Hello" %}', documentation: 'Translates a constant string or variable.' },
+    { name: 'url', usage: "{% url 'view-name' arg1 %}", documentation: 'Returns an absolute path reference matching the given view and arguments.' },
+    { name: 'verbatim', usage: '{% verbatim %}…{% endverbatim %}', documentation: 'Stops the template engine from rendering the enclosed content.' },
+    { name: 'widthratio', usage: '{% widthratio this_value max_value 100 %}', documentation: 'Calculates the ratio of a value to a maximum, scaled to a constant.' },
+    { name: 'with', usage: '{% with total=business.employees.count %}…{% endwith %}', documentation: 'Caches a complex variable under a simpler name for the enclosed block.' }
+];
+
+export function findDjangoFilter(name: string): DjangoBuiltin | undefined {
+    return DJANGO_FILTERS.find(f => f.name === name);
+}
+
+/** Look up a tag by name; `end*` and intermediate tags (`else`, `empty`) resolve to their block. */
+export function findDjangoTag(name: string): DjangoBuiltin | undefined {
+    const intermediateOwners: Record<string, string> = { elif: 'if', else: 'if', empty: 'for', plural: 'blocktranslate' };
+    const lookupName = intermediateOwners[name] || (name.startsWith('end') ? name.slice(3) : name);
+    return DJANGO_TAGS.find(t => t.name === lookupName);
+}
+
+export function renderDjangoBuiltinDoc(kind: 'filter' | 'tag', builtin: DjangoBuiltin): string {
+    return `**${builtin.name}** (Django ${kind})\n\n${builtin.documentation}\n\n\`${builtin.usage}\``;
+}
@@ -0,0 +1,249 @@
+import {
+    CodeAction,
+    CodeActionKind,
+    CreateFile,
+    Diagnostic,
+    OptionalVersionedTextDocumentIdentifier,
+    Position,
+    Range,
+    TextDocumentEdit,
+    TextEdit
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { CottonComponent, CottonParser } from '../cottonParser';
+import { ComponentIndex } from '../utils/componentIndex';
+import { findClosestNames } from '../utils/stringDistance';
+
+export class CodeActionHandler {
+    constructor(
+        private parser: CottonParser,
+        private componentIndex: ComponentIndex
+    ) {}
+
+    /**
+     * Quick fixes for the diagnostics DiagnosticsHandler emits. Only diagnostics the client
+     * passes back in the request context are considered, so each fix is tied to the exact
+     * problem under the cursor.
+     */
+    async handleCodeActions(
+        document: TextDocument,
+        diagnostics: Diagnostic[],
+        supportsCreateFile: boolean
+    ): Promise<CodeAction[]> {
+        const actions: CodeAction[] = [];
+
+        for (const diagnostic of diagnostics) {
+            if (diagnostic.source !== 'Cotton') continue;
+
+            if (diagnostic.code === 'cotton-component-not-found') {
+                actions.push(...await this.getMissingComponentActions(document, diagnostic, supportsCreateFile));
+            } else if (diagnostic.code === 'cotton-slot-not-referenced') {
+                actions.push(...await this.getSlotNameActions(document, diagnostic));
+            } else if (diagnostic.code === 'cotton-missing-required-prop') {
+                actions.push(...this.getMissingRequiredPropActions(document, diagnostic));
+            } else if (diagnostic.code === 'cotton-deprecated-component' || diagnostic.code === 'cotton-deprecated-prop') {
+                actions.push(...await this.getDeprecationActions(document, diagnostic));
+            }
+        }
+
+        return actions;
+    }
+
+    private async getMissingComponentActions(
+        document: TextDocument,
+        diagnostic: Diagnostic,
+        supportsCreateFile: boolean
+    ): Promise<CodeAction[]> {
+        const componentName = (diagnostic.data as { componentName?: string } | undefined)?.componentName;
+        if (!componentName) return [];
+
+        const content = document.getText();
+        const htmlDoc = this.parser.parseDocument(content, document.uri);
+        // The diagnostic starts at the `<` of the tag (or inside an `is` value) - step past it
+        // so the lookup lands inside the node.
+        const component = this.parser.findComponentAtOffset(htmlDoc, document.offsetAt(diagnostic.range.start) + 1);
+        const actions: CodeAction[] = [];
+
+        const allComponents = await this.componentIndex.getAllComponents();
+        const suggestions = findClosestNames(componentName, allComponents.map(c => c.name));
+
+        for (const suggestion of suggestions) {
+            const edits = this.getComponentNameEdits(document, content, component, diagnostic.range, suggestion);
+            if (edits.length === 0) continue;
+
+            actions.push({
+                title: `Did you mean <c-${suggestion}>?`,
+                kind: CodeActionKind.QuickFix,
+                diagnostics: [diagnostic],
+                isPreferred: suggestion === suggestions[0],
+                edit: { changes: { [document.uri]: edits } }
+            });
+        }
+
+        if (supportsCreateFile) {
+            const filePath = await this.componentIndex.getNewComponentFilePath(componentName);
+            if (filePath) {
+                const propNames = component
+                    ? this.parser.getAttributes(content, component.node)
+                        .filter(a => !a.isEscaped && !(component.name === 'component' && a.name === 'is'))
+                        .map(a => a.name)
+                    : [];
+                const newUri = URI.file(filePath).toString();
+
+                actions.push({
+                    title: `Create component file for <c-${componentName}>`,
+                    kind: CodeActionKind.QuickFix,
+                    diagnostics: [diagnostic],
+                    edit: {
+                        documentChanges: [
+                            CreateFile.create(newUri, { ignoreIfExists: true }),
+                            TextDocumentEdit.create(
+                                OptionalVersionedTextDocumentIdentifier.create(newUri, null),
+                                [TextEdit.insert(Position.create(0, 0), this.buildComponentStub(propNames))]
+                            )
+                        ]
+                    }
+                });
+            }
+        }
+
+        return actions;
+    }
+
+    /**
+     * Edits that point a usage at a different component: the opening and closing tag names of
+     * `<c-old>...</c-old>`, or - for `<c-component is="old">` - the `is` value, which is what
+     * the diagnostic's range covers in that case.
+     */
+    private getComponentNameEdits(
+        document: TextDocument,
+        content: string,
+        component: CottonComponent | null,
+        diagnosticRange: Range,
+        newName: string
+    ): TextEdit[] {
+        if (!component) return [];
+        if (component.name === 'component') {
+            return [TextEdit.replace(diagnosticRange, newName)];
+        }
+
+        const edits: TextEdit[] = [];
+        const tagNameRange = this.parser.getTagNameRange(component.node);
+        if (tagNameRange) {
+            edits.push(TextEdit.replace(
+                Range.create(document.positionAt(tagNameRange.start + 2), document.positionAt(tagNameRange.end)),
+                newName
+            ));
+        }
+        if (component.node.endTagStart !== undefined) {
+            const closingStart = component.node.endTagStart + 2; // Skip '</'
+            const closingEnd = closingStart + component.fullTag.length;
+            if (content.substring(closingStart, closingEnd) === component.fullTag) {
+                edits.push(TextEdit.replace(
+                    Range.create(document.positionAt(closingStart + 2), document.positionAt(closingEnd)),
+                    newName
+                ));
+            }
+        }
+        return edits;
+    }
+
+    /**
+     * Replace a deprecated component with the one its `@deprecated use c-...` text names, or a
+     * deprecated prop with its `use ...` replacement (keeping any `:` prefix).
+     */
+    private async getDeprecationActions(document: TextDocument, diagnostic: Diagnostic): Promise<CodeAction[]> {
+        const data = diagnostic.data as { componentName?: string; propName?: string; replacement?: string } | undefined;
+        if (!data?.replacement) return [];
+
+        if (diagnostic.code === 'cotton-deprecated-prop') {
+            if (!data.propName) return [];
+            const nameEnd = diagnostic.range.end;
+            const nameStart = document.positionAt(document.offsetAt(nameEnd) - data.propName.length);
+            return [{
+                title: `Replace '${data.propName}' with '${data.replacement}'`,
+                kind: CodeActionKind.QuickFix,
+                diagnostics: [diagnostic],
+                isPreferred: true,
+                edit: { changes: { [document.uri]: [TextEdit.replace(Range.create(nameStart, nameEnd), data.replacement)] } }
+            }];
+        }
+
+        if (!await this.componentIndex.findComponent(data.replacement)) return [];
+
+        const content = document.getText();
+        const htmlDoc = this.parser.parseDocument(content, document.uri);
+        const component = this.parser.findComponentAtOffset(htmlDoc, document.offsetAt(diagnostic.range.start));
+        const edits = this.getComponentNameEdits(document, content, component, diagnostic.range, data.replacement);
+        if (edits.length === 0) return [];
+
+        return [{
+            title: `Replace with <c-${data.replacement}>`,
+            kind: CodeActionKind.QuickFix,
+            diagnostics: [diagnostic],
+            isPreferred: true,
+            edit: { changes: { [document.uri]: edits } }
+        }];
+    }
+
+    /**
+     * Starter template for a new component: a `<c-vars>` declaring every prop the call site
+     * passes (deduplicated, in the order they were written), and a root element that forwards
+     * remaining attributes and renders the default slot.
+     */
+    private buildComponentStub(propNames: string[]): string {
+        const uniqueNames = [...new Set(propNames)];
+        const lines: string[] = [];
+
+        if (uniqueNames.length > 0) {
+            lines.push(`<c-vars ${uniqueNames.join(' ')} />`, '');
+        }
+        lines.push('<div {{ attrs }}>', '    {{ slot }}', '</div>', '');
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Insert the missing required props as empty attributes straight after the tag name, e.g.
+     * `<c-card title="">`, leaving the values for the author to fill in.
+     */
+    private getMissingRequiredPropActions(document: TextDocument, diagnostic: Diagnostic): CodeAction[] {
+        const propNames = (diagnostic.data as { propNames?: string[] } | undefined)?.propNames;
+        if (!propNames || propNames.length === 0) return [];
+
+        const insertText = propNames.map(name => ` ${name}=""`).join('');
+        return [{
+            title: propNames.length === 1
+                ? `Add required prop '${propNames[0]}'`
+                : `Add required props ${propNames.map(name => `'${name}'`).join(', ')}`,
+            kind: CodeActionKind.QuickFix,
+            diagnostics: [diagnostic],
+            isPreferred: true,
+            edit: { changes: { [document.uri]: [TextEdit.insert(diagnostic.range.end, insertText)] } }
+        }];
+    }
+
+    private async getSlotNameActions(document: TextDocument, diagnostic: Diagnostic): Promise<CodeAction[]> {
+        const data = diagnostic.data as { componentName?: string; slotName?: string } | undefined;
+        if (!data?.componentName || data.slotName === undefined) return [];
+
+        const component = await this.componentIndex.findComponent(data.componentName);
+        if (!component) return [];
+
+        const excludeNames = new Set(component.cVars.map(v => v.name));
+        const candidates = await this.componentIndex.getSlotCandidates(component.filePath, excludeNames);
+
+        // Closest matches first (most likely the intended name), then any remaining candidates.
+        const closest = findClosestNames(data.slotName, candidates, candidates.length);
+        const ordered = [...closest, ...candidates.filter(c => !closest.includes(c))];
+
+        return ordered.map((name, index) => ({
+            title: `Change slot name to '${name}'`,
+            kind: CodeActionKind.QuickFix,
+            diagnostics: [diagnostic],
+            isPreferred: index === 0 && closest.length > 0,
+            edit: { changes: { [document.uri]: [TextEdit.replace(diagnostic.range, name)] } }
+        }));
+    }
+}
@@ -1,19 +1,26 @@
 import {
     CompletionItem,
     CompletionItemKind,
+    CompletionItemTag,
     InsertTextFormat,
     TextEdit,
     Range,
     Position
 } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { CottonParser } from '../cottonParser';
+import { URI } from 'vscode-uri';
+import { CottonAttribute, CottonParser } from '../cottonParser';
 import { ComponentIndex, CVarDefinition } from '../utils/componentIndex';
+import { UsageIndex } from '../utils/usageIndex';
+import { buildBlockStructure, DJANGO_BLOCK_TAGS, TemplateBlock, tokenizeTemplate } from '../cottonTokenizer';
+import { DJANGO_FILTERS, DJANGO_TAGS, renderDjangoBuiltinDoc } from '../djangoBuiltins';
+import { ComponentDocs, findParam, findParamDoc, formatPropType, isValueCompatible, renderComponentDocs } from '../utils/componentDocs';
 
 export class CompletionHandler {
     constructor(
         private parser: CottonParser,
-        private componentIndex: ComponentIndex
+        private componentIndex: ComponentIndex,
+        private usageIndex: UsageIndex
     ) {}
 
     async handleCompletion(
@@ -24,14 +31,26 @@ export class CompletionHandler {
         const offset = document.offsetAt(position);
         const htmlDoc = this.parser.parseDocument(content, document.uri);
 
-        const slotNode = this.parser.findComponentAtOffset(htmlDoc, offset);
-        if (slotNode?.fullTag === 'c-slot') {
-            const slotContext = this.parser.getSlotNameContext(content, slotNode.node, offset);
+        const templateItems = await this.getTemplateSyntaxCompletions(document, content, offset, position);
+        if (templateItems) {
+            return templateItems;
+        }
+
+        const cottonNode = this.parser.findComponentAtOffset(htmlDoc, offset);
+        if (cottonNode?.fullTag === 'c-slot') {
+            const slotContext = this.parser.getSlotNameContext(content, cottonNode.node, offset);
             if (slotContext) {
                 return this.getSlotNameCompletions(slotContext, document);
             }
         }
 
+        if (cottonNode && !this.componentIndex.isBuiltinDirective(cottonNode.name)) {
+            const valueContext = this.parser.getAttributeValueContext(content, cottonNode.node, offset);
+            if (valueContext) {
+                return this.getAttributeValueCompletions(cottonNode.name, valueContext, offset, document);
+            }
+        }
+
         const context = this.parser.getCursorContext(content, offset, htmlDoc);
 
         if (context.isTypingTagName) {
@@ -59,6 +78,162 @@ export class CompletionHandler {
         return [];
     }
 
+    /**
+     * Completion inside Django template syntax: filter names after `|` in `{{ }}`, tag names
+     * right after `{%` (with the end/intermediate tags for whichever blocks are still open at
+     * the cursor listed first), and - in a component's own template - the variables Cotton
+     * provides at the start of `{{ }}` or in an `{% if %}` condition. Returns null when the
+     * cursor isn't inside `{{ }}` or `{% %}`, so the caller falls through to Cotton
+     * tag/attribute completion.
+     */
+    private async getTemplateSyntaxCompletions(
+        document: TextDocument,
+        content: string,
+        offset: number,
+        position: Position
+    ): Promise<CompletionItem[] | null> {
+        const textBefore = content.substring(0, offset);
+
+        const variableStart = textBefore.lastIndexOf('{{');
+        if (variableStart !== -1 && variableStart > textBefore.lastIndexOf('}}')) {
+            const expression = textBefore.substring(variableStart + 2);
+            const filterMatch = expression.match(/\|\s*(\w*)$/);
+            if (filterMatch) {
+                const replaceRange = this.getReplaceRange(filterMatch[1] || null, position);
+                return DJANGO_FILTERS.map(filter => this.createDjangoBuiltinItem('filter', filter.name, renderDjangoBuiltinDoc('filter', filter), `0_${filter.name}`, replaceRange));
+            }
+
+            const variableMatch = expression.match(/^\s*(\w*)$/);
+            return variableMatch ? this.getComponentVariableCompletions(document, variableMatch[1] || null, position) : [];
+        }
+
+        const tagStart = textBefore.lastIndexOf('{%');
+        if (tagStart !== -1 && tagStart > textBefore.lastIndexOf('%}')) {
+            const tagArguments = textBefore.substring(tagStart + 2);
+            const conditionMatch = tagArguments.match(/^\s*(?:if|elif)\s+(?:.*[\s(])?(\w*)$/);
+            if (conditionMatch) {
+                return this.getComponentVariableCompletions(document, conditionMatch[1] || null, position);
+            }
+
+            const tagNameMatch = tagArguments.match(/^\s*(\w*)$/);
+            if (!tagNameMatch) return [];
+
+            const replaceRange = this.getReplaceRange(tagNameMatch[1] || null, position);
+            const items: CompletionItem[] = [];
+
+            const openBlocks = this.getOpenBlocks(buildBlockStructure(tokenizeTemplate(textBefore.substring(0, tagStart))).blocks);
+            const innermost = openBlocks[0];
+            if (innermost) {
+                const name = innermost.open.name;
+                items.push(this.createDjangoBuiltinItem('tag', `end${name}`, `Closes \`{% ${name} %}\` on line ${this.lineOf(content, innermost.open.start) + 1}.`, `0_end${name}`, replaceRange));
+                for (const intermediate of DJANGO_BLOCK_TAGS[name] || []) {
+                    items.push(this.createDjangoBuiltinItem('tag', intermediate, `Branch of \`{% ${name} %}\`.`, `0_${intermediate}`, replaceRange));
+                }
+            }
+
+            for (const tag of DJANGO_TAGS) {
+                items.push(this.createDjangoBuiltinItem('tag', tag.name, renderDjangoBuiltinDoc('tag', tag), `1_${tag.name}`, replaceRange));
+            }
+            return items;
+        }
+
+        return null;
+    }
+
+    /**
+     * Variables available inside a component's own template: its `<c-vars>` (under the
+     * snake_case name Cotton exposes kebab-case props as), `slot`, `attrs`, and the named slots
+     * the body already renders. Nothing is offered outside component files.
+     */
+    private async getComponentVariableCompletions(
+        document: TextDocument,
+        partialName: string | null,
+        position: Position
+    ): Promise<CompletionItem[]> {
+        const component = await this.componentIndex.findComponentByFilePath(URI.parse(document.uri).fsPath);
+        if (!component) return [];
+
+        const replaceRange = this.getReplaceRange(partialName, position);
+        const items: CompletionItem[] = [];
+        const seen = new Set<string>();
+
+        const addItem = (label: string, kind: CompletionItemKind, detail: string, documentation: string, sortText: string) => {
+            if (seen.has(label)) return;
+            seen.add(label);
+            items.push({
+                label,
+                kind,
+                detail,
+                documentation: { kind: 'markdown', value: documentation },
+                sortText,
+                filterText: label,
+                insertTextFormat: InsertTextFormat.PlainText,
+                ...(replaceRange ? { textEdit: TextEdit.replace(replaceRange, label) } : { insertText: label })
+            });
+        };
+
+        for (const cVar of component.cVars) {
+            const variableName = cVar.name.replace(/-/g, '_');
+            const detail = cVar.defaultValue ? `${cVar.name} = ${cVar.defaultValue}` : cVar.name;
+            const documentation = variableName !== cVar.name
+                ? `Prop \`${cVar.name}\` from \`<c-vars>\`, available in the template as \`${variableName}\`.`
+                : `Prop \`${cVar.name}\` from \`<c-vars>\`.`;
+            const paramDoc = findParamDoc(component.docs, cVar.name);
+            addItem(variableName, CompletionItemKind.Variable, detail, paramDoc ? `${paramDoc}\n\n${documentation}` : documentation, `0_${variableName}`);
+        }
+
+        addItem('slot', CompletionItemKind.Keyword, 'Cotton default slot', 'Content passed between the component\'s opening and closing tags.', '1_slot');
+        addItem('attrs', CompletionItemKind.Keyword, 'Cotton attributes', 'Every attribute passed to the component that isn\'t declared in `<c-vars>`, rendered as HTML attributes.', '1_attrs');
+
+        const excludeNames = new Set(component.cVars.map(v => v.name));
+        for (const slotName of await this.componentIndex.getSlotCandidates(component.filePath, excludeNames)) {
+            addItem(slotName, CompletionItemKind.EnumMember, 'Cotton named slot', `Filled by \`<c-slot name="${slotName}">\` at the call site.`, `2_${slotName}`);
+        }
+
+        return items;
+    }
+
+    /** Blocks with no end tag yet, innermost first. */
+    private getOpenBlocks(blocks: TemplateBlock[]): TemplateBlock[] {
+        const open: TemplateBlock[] = [];
+        const walk = (block: TemplateBlock) => {
+            if (!block.close) open.push(block);
+            block.children.forEach(walk);
+        };
+        blocks.forEach(walk);
+        return open.sort((a, b) => b.open.start - a.open.start);
+    }
+
+    private lineOf(content: string, offset: number): number {
+        return content.substring(0, offset).split('\n').length - 1;
+    }
+
+    private createDjangoBuiltinItem(
+        kind: 'filter' | 'tag',
+        name: string,
+        documentation: string,
+        sortText: string,
+        replaceRange?: Range
+    ): CompletionItem {
+        const item: CompletionItem = {
+            label: name,
+            kind: kind === 'filter' ? CompletionItemKind.Function : CompletionItemKind.Keyword,
+            detail: `Django ${kind}`,
+            documentation: { kind: 'markdown', value: documentation },
+            sortText,
+            filterText: name,
+            insertTextFormat: InsertTextFormat.PlainText
+        };
+
+        if (replaceRange) {
+            item.textEdit = TextEdit.replace(replaceRange, name);
+        } else {
+            item.insertText = name;
+        }
+
+        return item;
+    }
+
     private static readonly BUILTIN_DIRECTIVES: { name: string; documentation: string }[] = [
         { name: 'vars', documentation: 'Declare in-component variables and default prop values.\n\nUsage: `<c-vars title="default" :count="0" />` at the top of a component file.' },
         { name: 'slot', documentation: 'Provide HTML content for a named slot inside a component.\n\nUsage:\n```html\n<c-slot name="icon">\n    <svg>...</svg>\n</c-slot>\n```' },
@@ -84,19 +259,24 @@ export class CompletionHandler {
 
         for (const component of components) {
             if (!partial || component.name.toLowerCase().startsWith(partial.toLowerCase())) {
-                const doc = await this.componentIndex.getComponentDocumentation(component.filePath);
-                
                 const item: CompletionItem = {
                     label: component.name,
                     kind: CompletionItemKind.Class,
                     detail: 'Cotton component',
-                    documentation: doc || undefined,
+                    documentation: component.docs
+                        ? { kind: 'markdown', value: renderComponentDocs(component.docs) }
+                        : undefined,
                     sortText: `0_${component.name}`,
                     filterText: component.name,
                     textEdit: TextEdit.replace(replaceRange, component.name),
                     insertTextFormat: InsertTextFormat.PlainText
                 };
 
+                if (component.docs?.deprecated !== undefined) {
+                    item.tags = [CompletionItemTag.Deprecated];
+                    item.sortText = `1_${component.name}`;
+                }
+
                 if (closingTagEdit) {
                     item.additionalTextEdits = [
                         TextEdit.replace(closingTagEdit.range, component.name)
@@ -190,7 +370,7 @@ export class CompletionHandler {
         for (const cVar of component.cVars) {
             if (!existingAttributes.has(cVar.name)) {
                 if (!partialAttr || cVar.name.toLowerCase().startsWith(partialAttr.toLowerCase())) {
-                    items.push(this.createAttributeItem(cVar, false, replaceRange));
+                    items.push(this.createAttributeItem(cVar, false, component.docs, replaceRange));
 
                     // A c-var declared with no default (e.g. `<c-vars errors />`) is commonly
                     // used as a boolean flag - Cotton lets you pass it with no value at all,
@@ -204,7 +384,7 @@ export class CompletionHandler {
             const expressionName = `:${cVar.name}`;
             if (!existingAttributes.has(expressionName)) {
                 if (!partialAttr || expressionName.toLowerCase().startsWith(partialAttr.toLowerCase())) {
-                    items.push(this.createAttributeItem(cVar, true, replaceRange));
+                    items.push(this.createAttributeItem(cVar, true, component.docs, replaceRange));
                 }
             }
         }
@@ -215,11 +395,13 @@ export class CompletionHandler {
     private createAttributeItem(
         cVar: CVarDefinition,
         isDjangoExpression: boolean,
+        docs: ComponentDocs | undefined,
         replaceRange?: Range
     ): CompletionItem {
         const fullName = isDjangoExpression ? `:${cVar.name}` : cVar.name;
         const insertText = `${fullName}="\${1:${cVar.defaultValue || ''}}"`;
         const type = isDjangoExpression ? 'Django expression' : 'text parameter';
+        const paramDoc = findParamDoc(docs, cVar.name);
 
         const item: CompletionItem = {
             label: fullName,
@@ -229,11 +411,16 @@ export class CompletionHandler {
             detail: `Cotton ${type}`,
             documentation: {
                 kind: 'markdown',
-                value: `**${fullName}** (${type})\n\nDefault: \`${cVar.defaultValue || 'undefined'}\``
+                value: `**${fullName}** (${type})\n\n${paramDoc ? `${paramDoc}\n\n` : ''}Default: \`${cVar.defaultValue || 'undefined'}\``
             },
             sortText: `0_${fullName}`
         };
 
+        if (findParam(docs, cVar.name)?.deprecated !== undefined) {
+            item.tags = [CompletionItemTag.Deprecated];
+            item.sortText = `2_${fullName}`;
+        }
+
         if (replaceRange) {
             item.textEdit = TextEdit.replace(replaceRange, insertText);
         } else {
@@ -322,6 +509,66 @@ export class CompletionHandler {
         return item;
     }
 
+    /**
+     * Values for a prop while typing inside its quotes. A `@param {type}` annotation decides
+     * what's valid: the members of an enum (quoted as string literals for a `:dynamic`
+     * attribute) or `True`/`False` for a dynamic boolean. Otherwise, the literal values passed
+     * for the prop elsewhere in the workspace (that fit its type, if it has one) are offered,
+     * most used first, so new call sites reuse existing variants. Enum members are ranked by
+     * the same usage counts. Observed values are only offered once the workspace usage scan
+     * has finished; completion never waits for it.
+     */
+    private async getAttributeValueCompletions(
+        componentName: string,
+        attribute: CottonAttribute,
+        offset: number,
+        document: TextDocument
+    ): Promise<CompletionItem[]> {
+        if (attribute.isEscaped) return [];
+
+        const component = await this.componentIndex.findComponent(componentName);
+        if (!component) return [];
+        const type = findParam(component.docs, attribute.name)?.type;
+
+        // Replace the whole value when it's on one line; an unterminated quote runs on past the
+        // cursor, so only replace what's been typed so far.
+        const replaceEnd = attribute.value?.includes('\n') ? offset : attribute.valueEnd;
+        const replaceRange = Range.create(document.positionAt(attribute.valueStart), document.positionAt(replaceEnd));
+
+        let observed: { value: string; count: number }[] = [];
+        if (this.usageIndex.isBuilt()) {
+            observed = this.usageIndex.getObservedPropValues(component.name, attribute.name, attribute.hasColon, {
+                uri: document.uri,
+                position: replaceRange.start
+            });
+        } else {
+            this.usageIndex.ensureBuilt();
+        }
+        const usageCounts = new Map(observed.map(o => [o.value, o.count]));
+
+        let values: string[];
+        if (type?.kind === 'enum') {
+            values = attribute.hasColon ? type.values.map(v => `'${v}'`) : [...type.values];
+            values.sort((a, b) => (usageCounts.get(b) || 0) - (usageCounts.get(a) || 0));
+        } else if (type?.kind === 'boolean' && attribute.hasColon) {
+            values = ['True', 'False'];
+        } else {
+            values = observed.map(o => o.value).filter(v => !type || isValueCompatible(type, v, attribute.hasColon));
+        }
+
+        return values.map((value, index) => {
+            const count = usageCounts.get(value) || 0;
+            const usedText = count > 0 ? `used ${count} time${count === 1 ? '' : 's'}` : '';
+            return {
+                label: value,
+                kind: CompletionItemKind.EnumMember,
+                detail: type ? [`${attribute.name}: ${formatPropType(type)}`, usedText].filter(Boolean).join(' - ') : `Cotton prop value - ${usedText}`,
+                textEdit: TextEdit.replace(replaceRange, value),
+                sortText: `0_${String(index).padStart(3, '0')}`
+            };
+        });
+    }
+
     private async getSlotNameCompletions(
         slotContext: { componentName: string; valueStart: number; valueEnd: number },
         document: TextDocument
@@ -1,18 +1,62 @@
 import {
     Diagnostic,
     DiagnosticSeverity,
+    DiagnosticTag,
     Range
 } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Node } from 'vscode-html-languageservice';
+import { URI } from 'vscode-uri';
 import { CottonParser } from '../cottonParser';
-import { ComponentIndex } from '../utils/componentIndex';
+import { ComponentIndex, ComponentInfo } from '../utils/componentIndex';
+import { UsageIndex } from '../utils/usageIndex';
+import { findParam, formatPropType, isValueCompatible } from '../utils/componentDocs';
+import { buildBlockStructure, findCVarsTag, TemplateToken, tokenizeTemplate } from '../cottonTokenizer';
+
+export type DiagnosticSeveritySetting = 'error' | 'warning' | 'information' | 'hint' | 'off';
+
+export interface DiagnosticsSettings {
+    unknownPropSeverity: DiagnosticSeveritySetting;
+    blockTagSeverity: DiagnosticSeveritySetting;
+    passThroughAttributes: string[];
+}
+
+/**
+ * Attributes that are routinely passed to a component purely so they land in `{{ attrs }}`
+ * on its root element, rather than as props. A trailing `*` matches any suffix.
+ */
+const DEFAULT_PASS_THROUGH_ATTRIBUTES = [
+    'class', 'id', 'style', 'title', 'role', 'tabindex', 'hidden', 'lang', 'dir',
+    'name', 'type', 'value', 'href', 'target', 'rel', 'src', 'alt', 'for', 'form',
+    'placeholder', 'autocomplete', 'autofocus', 'disabled', 'readonly', 'required',
+    'checked', 'selected', 'method', 'action', 'width', 'height',
+    'hx-*', 'x-*', 'data-*', 'aria-*', '@*'
+];
+
+const SEVERITY_MAP: Record<Exclude<DiagnosticSeveritySetting, 'off'>, DiagnosticSeverity> = {
+    error: DiagnosticSeverity.Error,
+    warning: DiagnosticSeverity.Warning,
+    information: DiagnosticSeverity.Information,
+    hint: DiagnosticSeverity.Hint
+};
 
 export class DiagnosticsHandler {
+    private settings: DiagnosticsSettings = {
+        unknownPropSeverity: 'warning',
+        blockTagSeverity: 'warning',
+        passThroughAttributes: []
+    };
+
     constructor(
         private parser: CottonParser,
-        private componentIndex: ComponentIndex
+        private componentIndex: ComponentIndex,
+        private usageIndex: UsageIndex
     ) {}
 
+    updateSettings(settings: DiagnosticsSettings) {
+        this.settings = settings;
+    }
+
     async getDiagnostics(document: TextDocument): Promise<Diagnostic[]> {
         const content = document.getText();
         const htmlDoc = this.parser.parseDocument(content, document.uri);
@@ -20,6 +64,31 @@ export class DiagnosticsHandler {
         
         const diagnostics: Diagnostic[] = [];
 
+        const tokens = tokenizeTemplate(content);
+
+        // Unbalanced Django block tags ({% if %} without {% endif %}, {% endfor %} closing a
+        // {% with %}, a stray {% else %}, ...) - checked in every file, component or not.
+        const blockTagSeverity = this.settings.blockTagSeverity;
+        if (blockTagSeverity !== 'off') {
+            for (const error of buildBlockStructure(tokens).errors) {
+                diagnostics.push({
+                    severity: SEVERITY_MAP[blockTagSeverity],
+                    range: Range.create(
+                        document.positionAt(error.token.start),
+                        document.positionAt(error.token.end)
+                    ),
+                    message: error.message,
+                    source: 'Cotton',
+                    code: 'cotton-unbalanced-block-tag'
+                });
+            }
+        }
+
+        const ownComponent = await this.componentIndex.findComponentByFilePath(URI.parse(document.uri).fsPath);
+        if (ownComponent) {
+            diagnostics.push(...this.getUnusedPropDiagnostics(document, content, tokens, ownComponent));
+        }
+
         for (const component of components) {
             // <c-component is="literal-name" /> - only validate when `is` is a static string;
             // dynamic expressions (`:is="..."`) or embedded template syntax can't be checked here.
@@ -27,7 +96,12 @@ export class DiagnosticsHandler {
                 const isAttr = this.parser.getAttributeValue(content, component.node, 'is');
                 if (isAttr && !isAttr.hasColon && !/[{}%]/.test(isAttr.value)) {
                     const componentInfo = await this.componentIndex.findComponent(isAttr.value);
-                    if (!componentInfo) {
+                    if (componentInfo) {
+                        diagnostics.push(...await this.getUnknownPropDiagnostics(document, content, component.node, componentInfo, isAttr.value));
+                        diagnostics.push(...this.getMissingRequiredPropDiagnostics(document, content, component.node, componentInfo, isAttr.value));
+                        diagnostics.push(...this.getDeprecationDiagnostics(document, content, component.node, componentInfo, isAttr.value, isAttr));
+                        diagnostics.push(...this.getPropValueDiagnostics(document, content, component.node, componentInfo, isAttr.value));
+                    } else {
                         diagnostics.push({
                             severity: DiagnosticSeverity.Error,
                             range: Range.create(
@@ -36,7 +110,8 @@ export class DiagnosticsHandler {
                             ),
                             message: `Cotton component '${isAttr.value}' not found`,
                             source: 'Cotton',
-                            code: 'cotton-component-not-found'
+                            code: 'cotton-component-not-found',
+                            data: { componentName: isAttr.value }
                         });
                     }
                 }
@@ -66,7 +141,8 @@ export class DiagnosticsHandler {
                                 ),
                                 message: `Slot '${nameAttr.value}' doesn't appear to be used anywhere in <c-${enclosingComponentName}> (no {{ ${nameAttr.value} }} or {% if ${nameAttr.value} %} found). Check for a typo.`,
                                 source: 'Cotton',
-                                code: 'cotton-slot-not-referenced'
+                                code: 'cotton-slot-not-referenced',
+                                data: { componentName: enclosingComponentName, slotName: nameAttr.value }
                             });
                         }
                     }
@@ -96,11 +172,265 @@ export class DiagnosticsHandler {
                     ),
                     message: `Cotton component '${component.name}' not found`,
                     source: 'Cotton',
-                    code: 'cotton-component-not-found'
+                    code: 'cotton-component-not-found',
+                    data: { componentName: component.name }
                 });
+                continue;
             }
+
+            diagnostics.push(...await this.getUnknownPropDiagnostics(document, content, component.node, componentInfo, component.name));
+            diagnostics.push(...this.getMissingRequiredPropDiagnostics(document, content, component.node, componentInfo, component.name));
+
+            const tagNameRange = this.parser.getTagNameRange(component.node);
+            if (tagNameRange) {
+                diagnostics.push(...this.getDeprecationDiagnostics(document, content, component.node, componentInfo, component.name, tagNameRange));
+            }
+            diagnostics.push(...this.getPropValueDiagnostics(document, content, component.node, componentInfo, component.name));
         }
 
         return diagnostics;
     }
+
+    /**
+     * For a component's own file, flag `<c-vars>` entries that are dead weight:
+     *   - `cotton-unused-prop`: the body never reads the prop (under either its kebab-case or
+     *     snake_case spelling). Reported as an Unnecessary hint so editors fade it out. When the
+     *     body renders `{{ attrs }}`, a prop with a default is left alone: declaring it is how a
+     *     component keeps that attribute out of `attrs`, so it's deliberate even if unread.
+     *   - `cotton-prop-never-passed`: the component is used somewhere, but no call site ever
+     *     passes the prop, so its default is the only value it ever takes. Left out until the
+     *     usage index is built; the server publishes again once it is.
+     * Declarations are read from the open buffer, so both stay in step with unsaved edits.
+     */
+    private getUnusedPropDiagnostics(
+        document: TextDocument,
+        content: string,
+        tokens: TemplateToken[],
+        component: ComponentInfo
+    ): Diagnostic[] {
+        const cVarsTag = findCVarsTag(tokens);
+        if (!cVarsTag) return [];
+
+        const usageCount = this.usageIndex.isBuilt() ? this.usageIndex.getUsageCount(component.name) : 0;
+        const referencedNames = new Set(this.componentIndex.collectReferencedNames(content, tokens));
+        const rendersAttrs = referencedNames.has('attrs');
+        const diagnostics: Diagnostic[] = [];
+
+        for (const attribute of cVarsTag.attributes) {
+            if (attribute.isEscaped) continue;
+
+            const range = Range.create(
+                document.positionAt(attribute.nameEnd - attribute.name.length),
+                document.positionAt(attribute.nameEnd)
+            );
+            const data = { componentName: component.name, propName: attribute.name };
+
+            const isRead = referencedNames.has(attribute.name.replace(/-/g, '_'));
+            const isKeptOutOfAttrs = rendersAttrs && attribute.value !== null;
+            if (!isRead && !isKeptOutOfAttrs) {
+                diagnostics.push({
+                    severity: DiagnosticSeverity.Hint,
+                    tags: [DiagnosticTag.Unnecessary],
+                    range,
+                    message: `Prop '${attribute.name}' is declared but never used in the component template`,
+                    source: 'Cotton',
+                    code: 'cotton-unused-prop',
+                    data
+                });
+            }
+
+            if (usageCount > 0 && this.usageIndex.getPropUsageCount(component.name, attribute.name) === 0) {
+                diagnostics.push({
+                    severity: DiagnosticSeverity.Hint,
+                    range,
+                    message: `Prop '${attribute.name}' is never passed by any of the ${usageCount} usage${usageCount === 1 ? '' : 's'} of <c-${component.name}>`,
+                    source: 'Cotton',
+                    code: 'cotton-prop-never-passed',
+                    data
+                });
+            }
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Flag attributes passed to a component that it neither declares in `<c-vars>` nor reads in
+     * its body (e.g. a typo'd `colr="red"`), unless they're a known pass-through HTML attribute
+     * destined for `{{ attrs }}`. Escaped `::` attributes are always literal pass-throughs.
+     */
+    private async getUnknownPropDiagnostics(
+        document: TextDocument,
+        content: string,
+        node: Node,
+        componentInfo: ComponentInfo,
+        componentName: string
+    ): Promise<Diagnostic[]> {
+        if (this.settings.unknownPropSeverity === 'off') return [];
+
+        const diagnostics: Diagnostic[] = [];
+        for (const attribute of this.parser.getAttributes(content, node)) {
+            if (attribute.isEscaped) continue;
+            if (node.tag === 'c-component' && attribute.name === 'is') continue;
+            if (this.isPassThroughAttribute(attribute.name)) continue;
+            if (this.componentIndex.hasPropReference(componentInfo, attribute.name)) continue;
+
+            diagnostics.push({
+                severity: SEVERITY_MAP[this.settings.unknownPropSeverity],
+                range: Range.create(
+                    document.positionAt(attribute.start),
+                    document.positionAt(attribute.end)
+                ),
+                message: `<c-${componentName}> doesn't declare '${attribute.name}' in <c-vars> or reference it in its template. Check for a typo.`,
+                source: 'Cotton',
+                code: 'cotton-unknown-prop',
+                data: { componentName, propName: attribute.name }
+            });
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Flag a usage that omits props the component marks `{# @required #}`. A prop counts as
+     * passed in either kebab-case or snake_case form, or when a `<c-slot name="...">` inside the
+     * tag fills it. One diagnostic per usage, on the tag name, listing every missing prop.
+     */
+    private getMissingRequiredPropDiagnostics(
+        document: TextDocument,
+        content: string,
+        node: Node,
+        componentInfo: ComponentInfo,
+        componentName: string
+    ): Diagnostic[] {
+        const required = componentInfo.cVars.filter(cVar => cVar.required);
+        if (required.length === 0) return [];
+
+        const passed = new Set(
+            this.parser.getAttributes(content, node)
+                .filter(a => !a.isEscaped)
+                .map(a => a.name.replace(/-/g, '_'))
+        );
+        for (const child of node.children) {
+            if (child.tag !== 'c-slot') continue;
+            const slotName = this.parser.getAttributeValue(content, child, 'name');
+            if (slotName) passed.add(slotName.value.replace(/-/g, '_'));
+        }
+
+        const missing = required.filter(cVar => !passed.has(cVar.name.replace(/-/g, '_'))).map(cVar => cVar.name);
+        const tagNameRange = this.parser.getTagNameRange(node);
+        if (missing.length === 0 || !tagNameRange) return [];
+
+        const list = missing.map(name => `'${name}'`).join(', ');
+        return [{
+            severity: DiagnosticSeverity.Warning,
+            range: Range.create(
+                document.positionAt(tagNameRange.start),
+                document.positionAt(tagNameRange.end)
+            ),
+            message: `<c-${componentName}> is missing required prop${missing.length === 1 ? '' : 's'} ${list}`,
+            source: 'Cotton',
+            code: 'cotton-missing-required-prop',
+            data: { componentName, propNames: missing }
+        }];
+    }
+
+    /**
+     * Strike through usages of a component whose doc block says `@deprecated`, and attributes
+     * passing a prop documented as `@param name @deprecated`. The replacement named by
+     * `use ...` in the deprecation text travels in `data` for the quick fix.
+     */
+    private getDeprecationDiagnostics(
+        document: TextDocument,
+        content: string,
+        node: Node,
+        componentInfo: ComponentInfo,
+        componentName: string,
+        nameRange: { start: number; end: number }
+    ): Diagnostic[] {
+        const docs = componentInfo.docs;
+        if (!docs) return [];
+
+        const diagnostics: Diagnostic[] = [];
+
+        if (docs.deprecated !== undefined) {
+            diagnostics.push({
+                severity: DiagnosticSeverity.Hint,
+                tags: [DiagnosticTag.Deprecated],
+                range: Range.create(document.positionAt(nameRange.start), document.positionAt(nameRange.end)),
+                message: `<c-${componentName}> is deprecated${docs.deprecated ? `: ${docs.deprecated}` : ''}`,
+                source: 'Cotton',
+                code: 'cotton-deprecated-component',
+                data: { componentName, replacement: docs.replacement }
+            });
+        }
+
+        for (const attribute of this.parser.getAttributes(content, node)) {
+            if (attribute.isEscaped) continue;
+
+            const param = findParam(docs, attribute.name);
+            if (param?.deprecated === undefined) continue;
+
+            diagnostics.push({
+                severity: DiagnosticSeverity.Hint,
+                tags: [DiagnosticTag.Deprecated],
+                range: Range.create(document.positionAt(attribute.start), document.positionAt(attribute.end)),
+                message: `Prop '${attribute.name}' of <c-${componentName}> is deprecated${param.deprecated ? `: ${param.deprecated}` : ''}`,
+                source: 'Cotton',
+                code: 'cotton-deprecated-prop',
+                data: { componentName, propName: attribute.name, replacement: param.replacement }
+            });
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Flag values that can't match a prop's `@param {type}` annotation, e.g. `size="xl"` for
+     * `{sm|md|lg}` or `:count="'abc'"` for `{number}`. See isValueCompatible for what's checked.
+     */
+    private getPropValueDiagnostics(
+        document: TextDocument,
+        content: string,
+        node: Node,
+        componentInfo: ComponentInfo,
+        componentName: string
+    ): Diagnostic[] {
+        if (!componentInfo.docs) return [];
+
+        const diagnostics: Diagnostic[] = [];
+        for (const attribute of this.parser.getAttributes(content, node)) {
+            if (attribute.isEscaped) continue;
+
+            const type = findParam(componentInfo.docs, attribute.name)?.type;
+            if (!type || isValueCompatible(type, attribute.value, attribute.hasColon)) continue;
+
+            const actual = attribute.value === null
+                ? 'True (no value)'
+                : attribute.hasColon ? attribute.value : `"${attribute.value}"`;
+            const range = attribute.value !== null
+                ? Range.create(document.positionAt(attribute.valueStart), document.positionAt(attribute.valueEnd))
+                : Range.create(document.positionAt(attribute.start), document.positionAt(attribute.end));
+
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range,
+                message: `Invalid value for '${attribute.name}' of <c-${componentName}>: expected ${formatPropType(type)}, got ${actual}`,
+                source: 'Cotton',
+                code: 'cotton-invalid-prop-value',
+                data: { componentName, propName: attribute.name }
+            });
+        }
+        return diagnostics;
+    }
+
+    private isPassThroughAttribute(name: string): boolean {
+        const lowerName = name.toLowerCase();
+        return [...DEFAULT_PASS_THROUGH_ATTRIBUTES, ...this.settings.passThroughAttributes].some(pattern => {
+            const lowerPattern = pattern.toLowerCase();
+            return lowerPattern.endsWith('*')
+                ? lowerName.startsWith(lowerPattern.slice(0, -1))
+                : lowerName === lowerPattern;
+        });
+    }
 }
@@ -0,0 +1,83 @@
+import {
+    DocumentSymbol,
+    Range,
+    SymbolKind
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Node } from 'vscode-html-languageservice';
+import { CottonParser } from '../cottonParser';
+
+export class DocumentSymbolHandler {
+    constructor(
+        private parser: CottonParser
+    ) {}
+
+    /**
+     * Outline for a Cotton template: every component usage is a Class node, nested under the
+     * component it sits inside (plain HTML elements in between are skipped), each
+     * `<c-slot name="...">` is a Field under the component it fills, and each `<c-vars>` prop
+     * is a Property under the `<c-vars>` tag that declares it.
+     */
+    handleDocumentSymbols(document: TextDocument): DocumentSymbol[] {
+        const content = document.getText();
+        const htmlDoc = this.parser.parseDocument(content, document.uri);
+        const symbolsByNode = new Map<Node, DocumentSymbol>();
+        const roots: DocumentSymbol[] = [];
+
+        // findCottonComponents walks in document order, so a component's enclosing Cotton tag
+        // always has its symbol before the component itself is visited.
+        for (const component of this.parser.findCottonComponents(htmlDoc)) {
+            const symbol = this.createSymbol(document, content, component.node, component.name);
+            if (!symbol) continue;
+
+            symbolsByNode.set(component.node, symbol);
+
+            let parent = component.node.parent;
+            while (parent && !symbolsByNode.has(parent)) {
+                parent = parent.parent;
+            }
+            const siblings = parent ? symbolsByNode.get(parent)!.children! : roots;
+            siblings.push(symbol);
+        }
+
+        return roots;
+    }
+
+    private createSymbol(document: TextDocument, content: string, node: Node, name: string): DocumentSymbol | null {
+        const tagNameRange = this.parser.getTagNameRange(node);
+        if (!tagNameRange) return null;
+
+        const range = this.toRange(document, node.start, node.end);
+        const selectionRange = this.toRange(document, tagNameRange.start, tagNameRange.end);
+
+        if (name === 'vars') {
+            const props = this.parser.getAttributes(content, node)
+                .filter(attribute => !attribute.isEscaped)
+                .map(attribute => DocumentSymbol.create(
+                    attribute.name,
+                    this.parser.getAttributeValue(content, node, attribute.name)?.value,
+                    SymbolKind.Property,
+                    this.toRange(document, attribute.start, attribute.end),
+                    this.toRange(document, attribute.start, attribute.end)
+                ));
+            return DocumentSymbol.create('c-vars', undefined, SymbolKind.Namespace, range, selectionRange, props);
+        }
+
+        if (name === 'slot') {
+            const slotName = this.parser.getAttributeValue(content, node, 'name');
+            return DocumentSymbol.create(slotName?.value || 'slot', 'c-slot', SymbolKind.Field, range, selectionRange, []);
+        }
+
+        if (name === 'component') {
+            const isAttr = this.parser.getAttributeValue(content, node, 'is');
+            const detail = isAttr ? `is${isAttr.hasColon ? ' (dynamic)' : ''}: ${isAttr.value}` : undefined;
+            return DocumentSymbol.create('<c-component>', detail, SymbolKind.Class, range, selectionRange, []);
+        }
+
+        return DocumentSymbol.create(`<c-${name}>`, undefined, SymbolKind.Class, range, selectionRange, []);
+    }
+
+    private toRange(document: TextDocument, start: number, end: number): Range {
+        return Range.create(document.positionAt(start), document.positionAt(end));
+    }
+}
@@ -1,23 +1,42 @@
 import {
     Hover,
     MarkupKind,
-    Position
+    Position,
+    Range
 } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as path from 'path';
+import { URI } from 'vscode-uri';
 import { CottonParser } from '../cottonParser';
-import { ComponentIndex, CVarDefinition } from '../utils/componentIndex';
+import { ComponentIndex, ComponentInfo, CVarDefinition } from '../utils/componentIndex';
+import { findParam, findParamDoc, formatPropType, PropType, renderDocDetails, renderDocSummary } from '../utils/componentDocs';
+import { UsageIndex } from '../utils/usageIndex';
+import { findCVarsTag, tokenizeTemplate } from '../cottonTokenizer';
+import { findDjangoFilter, findDjangoTag, renderDjangoBuiltinDoc } from '../djangoBuiltins';
 
 export class HoverHandler {
+    private previewLines = 10;
+
     constructor(
         private parser: CottonParser,
-        private componentIndex: ComponentIndex
+        private componentIndex: ComponentIndex,
+        private usageIndex: UsageIndex
     ) {}
 
+    updateSettings(previewLines: number) {
+        this.previewLines = previewLines;
+    }
+
     async handleHover(document: TextDocument, position: Position): Promise<Hover | null> {
         const content = document.getText();
         const offset = document.offsetAt(position);
         const htmlDoc = this.parser.parseDocument(content, document.uri);
 
+        const templateHover = this.getTemplateSyntaxHover(document, content, offset);
+        if (templateHover) {
+            return templateHover;
+        }
+
         const component = this.parser.findComponentAtOffset(htmlDoc, offset);
         if (!component || this.componentIndex.isBuiltinDirective(component.name)) {
             return null;
@@ -45,40 +64,151 @@ export class HoverHandler {
             return {
                 contents: {
                     kind: MarkupKind.Markdown,
-                    value: this.renderPropDoc(cVar)
+                    value: this.renderPropDoc(cVar, findParamDoc(componentInfo.docs, cVar.name), findParam(componentInfo.docs, cVar.name)?.type)
                 }
             };
         }
 
-        const doc = await this.componentIndex.getComponentDocumentation(componentInfo.filePath);
+        const sections = [this.renderComponentDoc(component.name, componentInfo)];
+
+        const excerpt = await this.renderTemplateExcerpt(componentInfo);
+        if (excerpt) {
+            sections.push(excerpt);
+        }
+
+        // The usage count waits for the workspace scan, but the hover doesn't: until the scan is
+        // done (it's started here if it hasn't been yet), only the file link is shown.
+        const fileLink = `[${this.getDisplayPath(componentInfo.filePath)}](${URI.file(componentInfo.filePath).toString()})`;
+        if (this.usageIndex.isBuilt()) {
+            const usageCount = this.usageIndex.getUsageCount(componentInfo.name);
+            sections.push(`${fileLink} · used in ${usageCount} place${usageCount === 1 ? '' : 's'}`);
+        } else {
+            this.usageIndex.ensureBuilt();
+            sections.push(fileLink);
+        }
+
         return {
             contents: {
                 kind: MarkupKind.Markdown,
-                value: this.renderComponentDoc(component.name, doc, componentInfo.cVars)
+                value: sections.join('\n\n---\n\n')
             }
         };
     }
 
-    private renderComponentDoc(name: string, doc: string | undefined, cVars: CVarDefinition[]): string {
+    /**
+     * The first lines of the component's markup - everything after `<c-vars>` (or after the
+     * leading doc comments when there's no `<c-vars>`) - as a django-html code block, cut off
+     * after the configured number of lines. Empty when previews are turned off (0 lines).
+     */
+    private async renderTemplateExcerpt(componentInfo: ComponentInfo): Promise<string> {
+        if (this.previewLines <= 0) return '';
+
+        const content = await this.componentIndex.getComponentFileContent(componentInfo.filePath);
+        if (!content) return '';
+
+        const tokens = tokenizeTemplate(content);
+        const cVarsTag = findCVarsTag(tokens);
+        let bodyStart = 0;
+        if (cVarsTag) {
+            const closing = cVarsTag.isSelfClosing ? undefined : tokens.find(t =>
+                t.type === 'tag' && t.name === 'c-vars' && t.isClosing && t.start >= cVarsTag.end);
+            bodyStart = closing ? closing.end : cVarsTag.end;
+        } else {
+            for (const token of tokens) {
+                if (token.type !== 'comment') break;
+                bodyStart = token.end;
+            }
+        }
+
+        const lines = content.substring(bodyStart).split('\n');
+        while (lines.length > 0 && !lines[0].trim()) lines.shift();
+        while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+        if (lines.length === 0) return '';
+
+        const excerpt = lines.slice(0, this.previewLines);
+        if (lines.length > this.previewLines) {
+            excerpt.push(`{# … ${lines.length - this.previewLines} more line${lines.length - this.previewLines === 1 ? '' : 's'} #}`);
+        }
+
+        return ['```django-html', ...excerpt, '```'].join('\n');
+    }
+
+    /** `card.html`, or `card/index.html` for a folder component. */
+    private getDisplayPath(filePath: string): string {
+        const fileName = path.basename(filePath);
+        return fileName === 'index.html'
+            ? `${path.basename(path.dirname(filePath))}/${fileName}`
+            : fileName;
+    }
+
+    /**
+     * Docs for a built-in Django filter (`upper` in `{{ x|upper }}`) or tag name (`for`, and
+     * its `endfor` / `empty`) under the cursor.
+     */
+    private getTemplateSyntaxHover(document: TextDocument, content: string, offset: number): Hover | null {
+        for (const token of tokenizeTemplate(content)) {
+            if (offset < token.start || offset > token.end) continue;
+
+            if (token.type === 'variable') {
+                const filter = token.filters.find(f => offset >= f.start && offset <= f.end);
+                const builtin = filter && findDjangoFilter(filter.name);
+                if (filter && builtin) {
+                    return {
+                        contents: { kind: MarkupKind.Markdown, value: renderDjangoBuiltinDoc('filter', builtin) },
+                        range: Range.create(document.positionAt(filter.start), document.positionAt(filter.end))
+                    };
+                }
+            } else if (token.type === 'templateTag' && offset >= token.nameStart && offset <= token.nameEnd) {
+                const builtin = findDjangoTag(token.name);
+                if (builtin) {
+                    return {
+                        contents: { kind: MarkupKind.Markdown, value: renderDjangoBuiltinDoc('tag', builtin) },
+                        range: Range.create(document.positionAt(token.nameStart), document.positionAt(token.nameEnd))
+                    };
+                }
+            }
+        }
+
+        return null;
+    }
+
+    private renderComponentDoc(name: string, componentInfo: ComponentInfo): string {
         const lines: string[] = [`**\`<c-${name}>\`**`];
+        const { cVars, docs } = componentInfo;
 
-        if (doc) {
-            lines.push('', doc);
+        const summary = docs && renderDocSummary(docs);
+        if (summary) {
+            lines.push('', summary);
         }
 
         if (cVars.length > 0) {
             lines.push('', '**Props:**');
             for (const cVar of cVars) {
                 const defaultText = cVar.defaultValue ? ` = \`${cVar.defaultValue}\`` : '';
-                lines.push(`- \`${cVar.name}\`${defaultText}`);
+                const requiredText = cVar.required ? ' *(required)*' : '';
+                const paramDoc = findParamDoc(docs, cVar.name);
+                const type = findParam(docs, cVar.name)?.type;
+                const typeText = type ? `: ${formatPropType(type)}` : '';
+                lines.push(`- \`${cVar.name}\`${typeText}${defaultText}${requiredText}${paramDoc ? ` - ${paramDoc}` : ''}`);
             }
         }
 
+        const details = docs && renderDocDetails(docs);
+        if (details) {
+            lines.push('', details);
+        }
+
         return lines.join('\n');
     }
 
-    private renderPropDoc(cVar: CVarDefinition): string {
-        const lines = [`**${cVar.name}**`, ''];
+    private renderPropDoc(cVar: CVarDefinition, paramDoc?: string, type?: PropType): string {
+        const lines = [`**${cVar.name}**${cVar.required ? ' *(required)*' : ''}`, ''];
+        if (paramDoc) {
+            lines.push(paramDoc, '');
+        }
+        if (type) {
+            lines.push(`Type: \`${formatPropType(type)}\``, '');
+        }
         lines.push(`Default: \`${cVar.defaultValue || 'undefined'}\``);
         if (!cVar.defaultValue && !cVar.isDjangoExpression) {
             lines.push('', 'Can be passed as a boolean flag (no value = `True`).');
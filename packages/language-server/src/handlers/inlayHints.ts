@@ -0,0 +1,88 @@
+import {
+    InlayHint,
+    InlayHintKind,
+    Range
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CottonParser } from '../cottonParser';
+import { ComponentIndex, CVarDefinition } from '../utils/componentIndex';
+
+export type PropHintsSetting = 'all' | 'required' | 'off';
+
+export class InlayHintHandler {
+    private propHints: PropHintsSetting = 'all';
+
+    constructor(
+        private parser: CottonParser,
+        private componentIndex: ComponentIndex
+    ) {}
+
+    updateSettings(propHints: PropHintsSetting) {
+        this.propHints = propHints;
+    }
+
+    /**
+     * After each component's opening tag, list the `<c-vars>` props that call site doesn't
+     * pass - each with the default it falls back to, or `?` when it has none (a "required-looking"
+     * prop). A prop counts as passed when it's given as an attribute in either kebab-case or
+     * snake_case form, or filled by a `<c-slot name="...">` inside the tag. With the `required`
+     * setting, only props without a default (or marked `@required`) are listed.
+     */
+    async handleInlayHints(document: TextDocument, range: Range): Promise<InlayHint[]> {
+        if (this.propHints === 'off') return [];
+
+        const content = document.getText();
+        const htmlDoc = this.parser.parseDocument(content, document.uri);
+        const rangeStart = document.offsetAt(range.start);
+        const rangeEnd = document.offsetAt(range.end);
+        const hints: InlayHint[] = [];
+
+        for (const component of this.parser.findCottonComponents(htmlDoc)) {
+            // The hint sits just after the opening tag, so that's what has to be inside the range.
+            const hintOffset = Math.min(this.parser.findTagEndOffset(content, component.node.start) + 1, content.length);
+            if (hintOffset < rangeStart || hintOffset > rangeEnd) continue;
+            if (this.componentIndex.isBuiltinDirective(component.name)) continue;
+
+            const componentInfo = await this.componentIndex.findComponent(component.name);
+            if (!componentInfo || componentInfo.cVars.length === 0) continue;
+
+            const passed = new Set(
+                this.parser.getAttributes(content, component.node)
+                    .filter(a => !a.isEscaped)
+                    .map(a => this.normalizePropName(a.name))
+            );
+            for (const child of component.node.children) {
+                if (child.tag !== 'c-slot') continue;
+                const slotName = this.parser.getAttributeValue(content, child, 'name');
+                if (slotName) passed.add(this.normalizePropName(slotName.value));
+            }
+
+            const missing = componentInfo.cVars.filter(cVar =>
+                !passed.has(this.normalizePropName(cVar.name)) &&
+                (this.propHints === 'all' || !cVar.defaultValue || cVar.required)
+            );
+            if (missing.length === 0) continue;
+
+            hints.push({
+                position: document.positionAt(hintOffset),
+                label: missing.map(cVar => this.formatProp(cVar)).join(' '),
+                kind: InlayHintKind.Parameter,
+                paddingLeft: true,
+                tooltip: `Props of <c-${component.name}> not passed here`
+            });
+        }
+
+        return hints;
+    }
+
+    private formatProp(cVar: CVarDefinition): string {
+        if (!cVar.defaultValue) return `${cVar.name}=?`;
+        return cVar.isDjangoExpression
+            ? `:${cVar.name}=${cVar.defaultValue}`
+            : `${cVar.name}="${cVar.defaultValue}"`;
+    }
+
+    private normalizePropName(name: string): string {
+        return name.replace(/-/g, '_');
+    }
+}
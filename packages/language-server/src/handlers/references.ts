@@ -26,10 +26,18 @@ export class ReferencesHandler {
         const offset = document.offsetAt(position);
         const htmlDoc = this.parser.parseDocument(content, document.uri);
 
-        const componentName = this.resolveComponentNameAtOffset(content, htmlDoc, offset);
-        if (!componentName || this.componentIndex.isBuiltinDirective(componentName)) {
+        const target = this.resolveComponentNameAtOffset(content, htmlDoc, offset);
+        if (!target) {
+            const propTarget = await this.resolvePropAtOffset(document, content, htmlDoc, offset);
+            if (!propTarget) {
+                return null;
+            }
+            return this.getPropReferences(propTarget.componentName, propTarget.propName, includeDeclaration);
+        }
+        if (this.componentIndex.isBuiltinDirective(target.name)) {
             return null;
         }
+        const componentName = target.name;
 
         await this.usageIndex.ensureBuilt();
         const references = this.usageIndex.getReferences(componentName);
@@ -48,11 +56,76 @@ export class ReferencesHandler {
     }
 
     /**
-     * Resolve the component name a "Find All References" invocation should target: the
-     * tag name of a <c-foo> usage (opening or closing), or a static `is="foo"` value on
-     * a <c-component> dynamic-component tag.
+     * Every call site that passes the given prop to the given component, plus (optionally)
+     * the prop's declaration in the component's `<c-vars>`.
+     */
+    private async getPropReferences(componentName: string, propName: string, includeDeclaration: boolean): Promise<Location[]> {
+        await this.usageIndex.ensureBuilt();
+        const references = this.usageIndex.getPropReferences(componentName, propName);
+
+        if (includeDeclaration) {
+            const componentInfo = await this.componentIndex.findComponent(componentName);
+            const content = componentInfo ? await this.componentIndex.getComponentFileContent(componentInfo.filePath) : null;
+            if (componentInfo && content) {
+                const textDocument = TextDocument.create(componentInfo.filePath, 'html', 0, content);
+                for (const occurrence of this.componentIndex.findPropOccurrences(content, propName)) {
+                    if (!occurrence.inCVars) continue;
+                    references.push(Location.create(
+                        URI.file(componentInfo.filePath).toString(),
+                        Range.create(textDocument.positionAt(occurrence.start), textDocument.positionAt(occurrence.end))
+                    ));
+                }
+            }
+        }
+
+        return references;
+    }
+
+    /**
+     * Resolve the prop a references (or rename) invocation should target: an attribute on a
+     * component usage - directly on <c-foo>, or passed through a static <c-component is="foo"> -
+     * or a declaration inside the current component file's own `<c-vars>`. The returned span
+     * covers the bare prop name, past any leading `:`. Escaped `::` attributes are literal
+     * pass-throughs rather than props, so they never resolve.
+     */
+    async resolvePropAtOffset(
+        document: TextDocument,
+        content: string,
+        htmlDoc: HTMLDocument,
+        offset: number
+    ): Promise<{ componentName: string; propName: string; inCVars: boolean; start: number; end: number } | null> {
+        const component = this.parser.findComponentAtOffset(htmlDoc, offset);
+        if (!component) return null;
+
+        const attribute = this.parser.getAttributes(content, component.node)
+            .find(a => offset >= a.start && offset <= a.end);
+        if (!attribute || attribute.isEscaped) return null;
+
+        const span = { propName: attribute.name, start: attribute.end - attribute.name.length, end: attribute.end };
+
+        if (component.name === 'vars') {
+            const componentInfo = await this.componentIndex.findComponentByFilePath(URI.parse(document.uri).fsPath);
+            if (!componentInfo) return null;
+            return { componentName: componentInfo.name, inCVars: true, ...span };
+        }
+
+        if (component.name === 'component') {
+            const isAttr = this.parser.getAttributeValue(content, component.node, 'is');
+            if (!isAttr || isAttr.hasColon || /[{}%]/.test(isAttr.value) || attribute.name === 'is') return null;
+            return { componentName: isAttr.value, inCVars: false, ...span };
+        }
+
+        if (this.componentIndex.isBuiltinDirective(component.name)) return null;
+        return { componentName: component.name, inCVars: false, ...span };
+    }
+
+    /**
+     * Resolve the component name a "Find All References" (or rename) invocation should target:
+     * the tag name of a <c-foo> usage (opening or closing), or a static `is="foo"` value on
+     * a <c-component> dynamic-component tag. The returned span covers just the component name
+     * (without the `c-` prefix), so rename can use it directly as the range being edited.
      */
-    private resolveComponentNameAtOffset(content: string, htmlDoc: HTMLDocument, offset: number): string | null {
+    resolveComponentNameAtOffset(content: string, htmlDoc: HTMLDocument, offset: number): { name: string; start: number; end: number } | null {
         const component = this.parser.findComponentAtOffset(htmlDoc, offset);
         if (!component) return null;
 
@@ -62,21 +135,21 @@ export class ReferencesHandler {
                 isAttr && !isAttr.hasColon && !/[{}%]/.test(isAttr.value) &&
                 offset >= isAttr.start && offset <= isAttr.end
             ) {
-                return isAttr.value;
+                return { name: isAttr.value, start: isAttr.start, end: isAttr.end };
             }
             return null;
         }
 
         const tagNameRange = this.parser.getTagNameRange(component.node);
         if (tagNameRange && offset >= tagNameRange.start && offset <= tagNameRange.end) {
-            return component.name;
+            return { name: component.name, start: tagNameRange.start + 2, end: tagNameRange.end };
         }
 
         if (component.node.endTagStart !== undefined) {
             const closingStart = component.node.endTagStart + 2;
             const closingEnd = closingStart + component.fullTag.length;
             if (offset >= closingStart && offset <= closingEnd) {
-                return component.name;
+                return { name: component.name, start: closingStart + 2, end: closingEnd };
             }
         }
 
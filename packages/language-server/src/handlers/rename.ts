@@ -0,0 +1,379 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    OptionalVersionedTextDocumentIdentifier,
+    Position,
+    Range,
+    RenameFile,
+    ResponseError,
+    ErrorCodes,
+    TextDocumentEdit,
+    TextDocuments,
+    TextEdit,
+    WorkspaceEdit
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { HTMLDocument } from 'vscode-html-languageservice';
+import { CottonParser } from '../cottonParser';
+import { ComponentIndex } from '../utils/componentIndex';
+import { UsageIndex } from '../utils/usageIndex';
+import { ReferencesHandler } from './references';
+
+const COMPONENT_NAME_PATTERN = /^[\w-]+(?:\.[\w-]+)*$/;
+const PROP_NAME_PATTERN = /^[a-zA-Z_][\w-]*$/;
+
+type RenameTarget =
+    | { kind: 'component'; name: string; start: number; end: number }
+    | { kind: 'prop'; componentName: string; propName: string; start: number; end: number };
+
+export class RenameHandler {
+    constructor(
+        private parser: CottonParser,
+        private componentIndex: ComponentIndex,
+        private usageIndex: UsageIndex,
+        private referencesHandler: ReferencesHandler,
+        private documents: TextDocuments<TextDocument>
+    ) {}
+
+    /**
+     * Component names (at an opening/closing tag or a static `is` value) and props (an attribute
+     * at a usage site, or a declaration inside the component's own `<c-vars>`) can be renamed.
+     * Returns the span of the name itself - without the `c-` prefix or any leading `:` - so the
+     * editor's rename box is pre-filled with e.g. `card.header` rather than `c-card.header`.
+     */
+    async prepareRename(document: TextDocument, position: Position): Promise<{ range: Range; placeholder: string } | null> {
+        const content = document.getText();
+        const offset = document.offsetAt(position);
+        const htmlDoc = this.parser.parseDocument(content, document.uri);
+
+        const target = await this.resolveRenameTarget(document, content, htmlDoc, offset);
+        if (!target) {
+            return null;
+        }
+
+        return {
+            range: Range.create(document.positionAt(target.start), document.positionAt(target.end)),
+            placeholder: target.kind === 'component' ? target.name : target.propName
+        };
+    }
+
+    async handleRename(
+        document: TextDocument,
+        position: Position,
+        newName: string,
+        supportsFileRename: boolean
+    ): Promise<WorkspaceEdit | null> {
+        const content = document.getText();
+        const offset = document.offsetAt(position);
+        const htmlDoc = this.parser.parseDocument(content, document.uri);
+
+        const target = await this.resolveRenameTarget(document, content, htmlDoc, offset);
+        if (!target) {
+            return null;
+        }
+
+        if (target.kind === 'prop') {
+            return this.renameProp(target.componentName, target.propName, newName.trim(), supportsFileRename);
+        }
+        return this.renameComponent(document, target.name, newName, supportsFileRename);
+    }
+
+    private async resolveRenameTarget(
+        document: TextDocument,
+        content: string,
+        htmlDoc: HTMLDocument,
+        offset: number
+    ): Promise<RenameTarget | null> {
+        const componentTarget = this.referencesHandler.resolveComponentNameAtOffset(content, htmlDoc, offset);
+        if (componentTarget) {
+            if (this.componentIndex.isBuiltinDirective(componentTarget.name)) return null;
+            return { kind: 'component', ...componentTarget };
+        }
+
+        const propTarget = await this.referencesHandler.resolvePropAtOffset(document, content, htmlDoc, offset);
+        if (!propTarget) return null;
+        const { componentName, propName, start, end } = propTarget;
+
+        // Only props the component actually tracks can be renamed from a call site - renaming
+        // an attribute that just falls through to {{ attrs }} would only touch this one usage.
+        if (!propTarget.inCVars) {
+            const componentInfo = await this.componentIndex.findComponent(componentName);
+            if (!componentInfo) return null;
+            const componentContent = await this.getContent(URI.file(componentInfo.filePath).toString());
+            if (!componentContent || !this.componentIndex.findPropTargetOffset(componentContent, propName)) return null;
+        }
+
+        return { kind: 'prop', componentName, propName, start, end };
+    }
+
+    /**
+     * Rename a component everywhere it's used: every opening tag, closing tag and static
+     * `<c-component is="...">` value in every file the UsageIndex knows about, plus (when the
+     * client supports resource operations) a move of the component's template file so the
+     * new tag name still resolves.
+     */
+    private async renameComponent(
+        document: TextDocument,
+        oldName: string,
+        newName: string,
+        supportsFileRename: boolean
+    ): Promise<WorkspaceEdit> {
+        newName = newName.trim().replace(/^c-/, '');
+        if (!COMPONENT_NAME_PATTERN.test(newName) || this.componentIndex.isBuiltinDirective(newName)) {
+            throw new ResponseError(ErrorCodes.InvalidParams, `'${newName}' is not a valid Cotton component name`);
+        }
+
+        await this.usageIndex.ensureBuilt();
+        const uris = new Set(this.usageIndex.getReferences(oldName).map(loc => loc.uri));
+        uris.add(document.uri);
+
+        const editsByUri = new Map<string, TextEdit[]>();
+        for (const uri of uris) {
+            const fileContent = await this.getContent(uri);
+            if (fileContent === null) continue;
+            this.addEdits(editsByUri, uri, this.computeTagEdits(uri, fileContent, oldName, newName));
+        }
+
+        // The file move must come after the text edits, since those edits may target the
+        // component's own file (e.g. a recursive component) by its old URI.
+        const fileRename = supportsFileRename ? await this.computeFileRename(oldName, newName) : null;
+        return this.buildWorkspaceEdit(editsByUri, supportsFileRename, fileRename);
+    }
+
+    /**
+     * Rename a prop across its component and every call site: the `<c-vars>` declaration, each
+     * `{{ }}`/`{% %}` reference in the component body (in snake_case, the form Cotton exposes it
+     * under), and each `prop=` / `:prop=` attribute passed on any usage of the component.
+     */
+    private async renameProp(
+        componentName: string,
+        oldName: string,
+        newName: string,
+        supportsDocumentChanges: boolean
+    ): Promise<WorkspaceEdit | null> {
+        if (!PROP_NAME_PATTERN.test(newName)) {
+            throw new ResponseError(ErrorCodes.InvalidParams, `'${newName}' is not a valid prop name`);
+        }
+
+        const componentInfo = await this.componentIndex.findComponent(componentName);
+        if (!componentInfo) return null;
+
+        const editsByUri = new Map<string, TextEdit[]>();
+
+        const componentUri = URI.file(componentInfo.filePath).toString();
+        const componentContent = await this.getContent(componentUri);
+        if (componentContent !== null) {
+            const textDocument = TextDocument.create(componentUri, 'html', 0, componentContent);
+            const edits = this.componentIndex.findPropOccurrences(componentContent, oldName).map(occurrence => TextEdit.replace(
+                Range.create(textDocument.positionAt(occurrence.start), textDocument.positionAt(occurrence.end)),
+                occurrence.inCVars ? newName : newName.replace(/-/g, '_')
+            ));
+            this.addEdits(editsByUri, componentUri, edits);
+        }
+
+        await this.usageIndex.ensureBuilt();
+        const uris = new Set(this.usageIndex.getReferences(componentName).map(loc => loc.uri));
+        for (const uri of uris) {
+            const fileContent = await this.getContent(uri);
+            if (fileContent === null) continue;
+            this.addEdits(editsByUri, uri, this.computeAttributeEdits(uri, fileContent, componentName, oldName, newName));
+        }
+
+        return this.buildWorkspaceEdit(editsByUri, supportsDocumentChanges, null);
+    }
+
+    private computeAttributeEdits(uri: string, content: string, componentName: string, oldName: string, newName: string): TextEdit[] {
+        const textDocument = TextDocument.create(uri, 'html', 0, content);
+        const htmlDoc = this.parser.parseDocument(content, uri);
+        const normalizedComponentName = this.normalizeName(componentName);
+        const nameVariants = new Set([oldName, oldName.replace(/-/g, '_'), oldName.replace(/_/g, '-')]);
+        const edits: TextEdit[] = [];
+
+        for (const component of this.parser.findCottonComponents(htmlDoc)) {
+            let usedName = component.name;
+            if (component.name === 'component') {
+                const isAttr = this.parser.getAttributeValue(content, component.node, 'is');
+                if (!isAttr || isAttr.hasColon || /[{}%]/.test(isAttr.value)) continue;
+                usedName = isAttr.value;
+            }
+            if (this.normalizeName(usedName) !== normalizedComponentName) continue;
+
+            for (const attribute of this.parser.getAttributes(content, component.node)) {
+                if (attribute.isEscaped || !nameVariants.has(attribute.name)) continue;
+                if (component.name === 'component' && attribute.name === 'is') continue;
+
+                const nameStart = attribute.end - attribute.name.length;
+                edits.push(TextEdit.replace(
+                    Range.create(textDocument.positionAt(nameStart), textDocument.positionAt(attribute.end)),
+                    this.matchNameStyle(attribute.name, newName)
+                ));
+            }
+        }
+
+        return edits;
+    }
+
+    /**
+     * Keep a call site's spelling convention: if it passed the snake_case form of a kebab-case
+     * prop (or vice versa), the renamed attribute is written the same way.
+     */
+    private matchNameStyle(existingName: string, newName: string): string {
+        if (existingName.includes('_') && !existingName.includes('-')) {
+            return newName.replace(/-/g, '_');
+        }
+        if (existingName.includes('-') && !existingName.includes('_')) {
+            return newName.replace(/_/g, '-');
+        }
+        return newName;
+    }
+
+    private addEdits(editsByUri: Map<string, TextEdit[]>, uri: string, edits: TextEdit[]): void {
+        if (edits.length === 0) return;
+        editsByUri.set(uri, [...(editsByUri.get(uri) || []), ...edits]);
+    }
+
+    private buildWorkspaceEdit(
+        editsByUri: Map<string, TextEdit[]>,
+        supportsDocumentChanges: boolean,
+        fileRename: RenameFile | null
+    ): WorkspaceEdit {
+        if (!supportsDocumentChanges) {
+            return { changes: Object.fromEntries(editsByUri) };
+        }
+
+        const documentChanges: (TextDocumentEdit | RenameFile)[] = [];
+        for (const [uri, edits] of editsByUri) {
+            const version = this.documents.get(uri)?.version ?? null;
+            documentChanges.push(TextDocumentEdit.create(
+                OptionalVersionedTextDocumentIdentifier.create(uri, version),
+                edits
+            ));
+        }
+        if (fileRename) {
+            documentChanges.push(fileRename);
+        }
+
+        return { documentChanges };
+    }
+
+    private computeTagEdits(uri: string, content: string, oldName: string, newName: string): TextEdit[] {
+        const textDocument = TextDocument.create(uri, 'html', 0, content);
+        const htmlDoc = this.parser.parseDocument(content, uri);
+        const normalizedOldName = this.normalizeName(oldName);
+        const edits: TextEdit[] = [];
+
+        const replace = (start: number, end: number, text: string) => {
+            edits.push(TextEdit.replace(
+                Range.create(textDocument.positionAt(start), textDocument.positionAt(end)),
+                text
+            ));
+        };
+
+        for (const component of this.parser.findCottonComponents(htmlDoc)) {
+            if (component.name === 'component') {
+                const isAttr = this.parser.getAttributeValue(content, component.node, 'is');
+                if (
+                    isAttr && !isAttr.hasColon && !/[{}%]/.test(isAttr.value) &&
+                    this.normalizeName(isAttr.value) === normalizedOldName
+                ) {
+                    replace(isAttr.start, isAttr.end, newName);
+                }
+                continue;
+            }
+
+            if (this.normalizeName(component.name) !== normalizedOldName) continue;
+
+            // Tag name spans below skip the `c-` prefix, which stays as-is.
+            const tagNameRange = this.parser.getTagNameRange(component.node);
+            if (tagNameRange) {
+                replace(tagNameRange.start + 2, tagNameRange.end, newName);
+            }
+
+            if (component.node.endTagStart !== undefined) {
+                const closingStart = component.node.endTagStart + 2; // Skip '</'
+                const closingEnd = closingStart + component.fullTag.length;
+                if (content.substring(closingStart, closingEnd) === component.fullTag) {
+                    replace(closingStart + 2, closingEnd, newName);
+                }
+            }
+        }
+
+        return edits;
+    }
+
+    /**
+     * Work out where the component's template should move to so `<c-newName>` resolves to it.
+     * A plain `name.html` file moves to `new/name.html` under the same template directory. An
+     * `index.html` component moves its whole folder when the folder holds nothing else;
+     * otherwise only the `index.html` moves, so nested components in the folder keep their names.
+     */
+    private async computeFileRename(oldName: string, newName: string): Promise<RenameFile | null> {
+        const filePath = await this.componentIndex.findComponentFile(oldName);
+        if (!filePath) return null;
+
+        const isIndexFile = path.basename(filePath) === 'index.html';
+        const oldSegments = oldName.split('.');
+        const newRelativePath = path.join(...newName.split('.'));
+
+        // Walk back up from the file to the template directory it was resolved against.
+        let basePath = path.dirname(filePath);
+        const levelsUp = isIndexFile ? oldSegments.length : oldSegments.length - 1;
+        for (let i = 0; i < levelsUp; i++) {
+            basePath = path.dirname(basePath);
+        }
+
+        let oldPath = filePath;
+        let newPath = path.join(basePath, newRelativePath + '.html');
+
+        if (isIndexFile) {
+            const folder = path.dirname(filePath);
+            const entries = await fs.promises.readdir(folder).catch(() => [] as string[]);
+            if (entries.length === 1) {
+                oldPath = folder;
+                newPath = path.join(basePath, newRelativePath);
+            } else {
+                newPath = path.join(basePath, newRelativePath, 'index.html');
+            }
+        }
+
+        if (path.normalize(oldPath) === path.normalize(newPath)) {
+            return null;
+        }
+
+        if (await this.pathExists(newPath)) {
+            throw new ResponseError(
+                ErrorCodes.InvalidRequest,
+                `Cannot rename component: '${path.relative(basePath, newPath)}' already exists`
+            );
+        }
+
+        return RenameFile.create(URI.file(oldPath).toString(), URI.file(newPath).toString());
+    }
+
+    private async getContent(uri: string): Promise<string | null> {
+        const openDocument = this.documents.get(uri);
+        if (openDocument) {
+            return openDocument.getText();
+        }
+
+        try {
+            return await fs.promises.readFile(URI.parse(uri).fsPath, 'utf-8');
+        } catch {
+            return null;
+        }
+    }
+
+    private async pathExists(filePath: string): Promise<boolean> {
+        try {
+            await fs.promises.access(filePath);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private normalizeName(name: string): string {
+        return name.replace(/_/g, '-');
+    }
+}
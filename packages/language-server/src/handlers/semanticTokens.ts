@@ -0,0 +1,119 @@
+import {
+    Range,
+    SemanticTokens,
+    SemanticTokensBuilder,
+    SemanticTokensLegend
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Node } from 'vscode-html-languageservice';
+import { CottonParser } from '../cottonParser';
+import { ComponentIndex } from '../utils/componentIndex';
+
+const TOKEN_TYPES = ['class', 'macro', 'property', 'variable'] as const;
+const TOKEN_MODIFIERS = ['declaration', 'defaultLibrary', 'unresolved', 'dynamic', 'escaped'] as const;
+
+type TokenType = typeof TOKEN_TYPES[number];
+type TokenModifier = typeof TOKEN_MODIFIERS[number];
+
+/**
+ * Token types and modifiers the server reports. `unresolved`, `dynamic` and `escaped` are
+ * Cotton-specific modifiers; the rest are standard LSP names so themes colour them out of the box.
+ */
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+    tokenTypes: [...TOKEN_TYPES],
+    tokenModifiers: [...TOKEN_MODIFIERS]
+};
+
+interface ClassifiedToken {
+    start: number;
+    end: number;
+    type: TokenType;
+    modifiers: TokenModifier[];
+}
+
+export class SemanticTokensHandler {
+    constructor(
+        private parser: CottonParser,
+        private componentIndex: ComponentIndex
+    ) {}
+
+    /**
+     * Classify the Cotton-specific parts of a template:
+     *   - component tag names (opening and closing) as `class`, with `unresolved` when no
+     *     template file exists for them
+     *   - the built-in `c-vars` / `c-slot` / `c-component` directives as `macro` + `defaultLibrary`
+     *   - attribute names on Cotton tags as `property`, with `dynamic` for `:attr` and `escaped`
+     *     for `::attr`
+     *   - prop names declared in `<c-vars>` as `variable` + `declaration`
+     * When a range is given, only tokens overlapping it are returned.
+     */
+    async handleSemanticTokens(document: TextDocument, range?: Range): Promise<SemanticTokens> {
+        const content = document.getText();
+        const htmlDoc = this.parser.parseDocument(content, document.uri);
+        const rangeStart = range ? document.offsetAt(range.start) : 0;
+        const rangeEnd = range ? document.offsetAt(range.end) : content.length;
+        const tokens: ClassifiedToken[] = [];
+
+        for (const component of this.parser.findCottonComponents(htmlDoc)) {
+            if (component.node.end < rangeStart || component.node.start > rangeEnd) continue;
+
+            const isDirective = this.componentIndex.isBuiltinDirective(component.name);
+            const tagType: TokenType = isDirective ? 'macro' : 'class';
+            const tagModifiers: TokenModifier[] = isDirective ? ['defaultLibrary'] : [];
+            if (!isDirective && !await this.componentIndex.findComponent(component.name)) {
+                tagModifiers.push('unresolved');
+            }
+
+            const tagNameRange = this.parser.getTagNameRange(component.node);
+            if (tagNameRange) {
+                tokens.push({ ...tagNameRange, type: tagType, modifiers: tagModifiers });
+            }
+
+            const closingTag = this.getClosingTagNameRange(content, component.node);
+            if (closingTag) {
+                tokens.push({ ...closingTag, type: tagType, modifiers: tagModifiers });
+            }
+
+            for (const attribute of this.parser.getAttributes(content, component.node)) {
+                if (component.name === 'vars' && !attribute.isEscaped) {
+                    tokens.push({ start: attribute.start, end: attribute.end, type: 'variable', modifiers: ['declaration'] });
+                    continue;
+                }
+
+                const modifiers: TokenModifier[] = [];
+                if (attribute.isEscaped) modifiers.push('escaped');
+                else if (attribute.hasColon) modifiers.push('dynamic');
+                tokens.push({ start: attribute.start, end: attribute.end, type: 'property', modifiers });
+            }
+        }
+
+        const builder = new SemanticTokensBuilder();
+        tokens
+            .filter(token => token.end >= rangeStart && token.start <= rangeEnd)
+            .sort((a, b) => a.start - b.start)
+            .forEach(token => {
+                const position = document.positionAt(token.start);
+                builder.push(
+                    position.line,
+                    position.character,
+                    token.end - token.start,
+                    TOKEN_TYPES.indexOf(token.type),
+                    this.encodeModifiers(token.modifiers)
+                );
+            });
+
+        return builder.build();
+    }
+
+    private getClosingTagNameRange(content: string, node: Node): { start: number; end: number } | null {
+        if (node.endTagStart === undefined || !node.tag) return null;
+
+        const start = node.endTagStart + 2; // Skip '</'
+        const end = start + node.tag.length;
+        return content.substring(start, end) === node.tag ? { start, end } : null;
+    }
+
+    private encodeModifiers(modifiers: TokenModifier[]): number {
+        return modifiers.reduce((bits, modifier) => bits | (1 << TOKEN_MODIFIERS.indexOf(modifier)), 0);
+    }
+}
@@ -0,0 +1,113 @@
+import {
+    ParameterInformation,
+    Position,
+    SignatureHelp,
+    SignatureInformation
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Node } from 'vscode-html-languageservice';
+import { CottonParser } from '../cottonParser';
+import { ComponentIndex } from '../utils/componentIndex';
+import { findParam, findParamDoc, formatPropType, renderDocSummary } from '../utils/componentDocs';
+
+export class SignatureHelpHandler {
+    constructor(
+        private parser: CottonParser,
+        private componentIndex: ComponentIndex
+    ) {}
+
+    /**
+     * A persistent "signature" for the component tag the cursor is in, like a Python function
+     * signature: `<c-modal title size="md" :open="False">`, one parameter per `<c-vars>` prop,
+     * with the prop currently being typed (its name or its value) highlighted. A static
+     * `<c-component is="...">` shows the signature of the component it renders.
+     */
+    async handleSignatureHelp(document: TextDocument, position: Position): Promise<SignatureHelp | null> {
+        const content = document.getText();
+        const offset = document.offsetAt(position);
+        const htmlDoc = this.parser.parseDocument(content, document.uri);
+
+        const context = this.parser.getCursorContext(content, offset, htmlDoc);
+        if (!context.isInsideCottonTag || !context.componentName) return null;
+
+        const component = this.parser.findComponentAtOffset(htmlDoc, offset);
+        if (!component) return null;
+
+        let componentName = context.componentName;
+        if (componentName === 'component') {
+            const isAttr = this.parser.getAttributeValue(content, component.node, 'is');
+            if (!isAttr || isAttr.hasColon || /[{}%]/.test(isAttr.value)) return null;
+            componentName = isAttr.value;
+        } else if (this.componentIndex.isBuiltinDirective(componentName)) {
+            return null;
+        }
+
+        const componentInfo = await this.componentIndex.findComponent(componentName);
+        if (!componentInfo || componentInfo.cVars.length === 0) return null;
+
+        let label = `<c-${componentName}`;
+        const parameters: ParameterInformation[] = [];
+
+        for (const cVar of componentInfo.cVars) {
+            const prefix = cVar.isDjangoExpression ? ':' : '';
+            const text = cVar.defaultValue ? `${prefix}${cVar.name}="${cVar.defaultValue}"` : `${prefix}${cVar.name}`;
+            const start = label.length + 1;
+            label += ` ${text}`;
+
+            const type = findParam(componentInfo.docs, cVar.name)?.type;
+            const documentation = [
+                cVar.required ? '*(required)*' : '',
+                type ? `\`${formatPropType(type)}\`` : '',
+                findParamDoc(componentInfo.docs, cVar.name) || ''
+            ].filter(Boolean).join(' ');
+
+            parameters.push({
+                label: [start, start + text.length],
+                documentation: documentation ? { kind: 'markdown', value: documentation } : undefined
+            });
+        }
+        label += '>';
+
+        const summary = componentInfo.docs && renderDocSummary(componentInfo.docs);
+        const signature: SignatureInformation = {
+            label,
+            documentation: summary ? { kind: 'markdown', value: summary } : undefined,
+            parameters
+        };
+
+        return {
+            signatures: [signature],
+            activeSignature: 0,
+            activeParameter: this.findActivePropIndex(content, offset, component.node, context.partialAttributeName, componentInfo.cVars.map(v => v.name))
+        };
+    }
+
+    /**
+     * Index of the prop whose name is being typed (or partly typed) or whose value the cursor
+     * is in. When the cursor isn't on any prop, returns an out-of-range index so no parameter
+     * is highlighted.
+     */
+    private findActivePropIndex(
+        content: string,
+        offset: number,
+        node: Node,
+        partialAttributeName: string | null,
+        propNames: string[]
+    ): number {
+        const activeName = this.parser.getAttributeValueContext(content, node, offset)?.name
+            ?? this.parser.findAttributeNameAtOffset(content, node, offset)?.name
+            ?? partialAttributeName?.replace(/^:+/, '');
+
+        if (activeName) {
+            const normalized = activeName.replace(/-/g, '_');
+            const exact = propNames.findIndex(name => name.replace(/-/g, '_') === normalized);
+            if (exact !== -1) return exact;
+
+            // Still typing the name - highlight the first prop it could become.
+            const prefix = propNames.findIndex(name => name.replace(/-/g, '_').startsWith(normalized));
+            if (prefix !== -1) return prefix;
+        }
+
+        return propNames.length;
+    }
+}
@@ -0,0 +1,90 @@
+import {
+    Location,
+    Position,
+    Range,
+    SymbolInformation,
+    SymbolKind
+} from 'vscode-languageserver';
+import { URI } from 'vscode-uri';
+import { ComponentIndex } from '../utils/componentIndex';
+
+export class WorkspaceSymbolHandler {
+    constructor(
+        private componentIndex: ComponentIndex
+    ) {}
+
+    /**
+     * Components (as Class) and their `<c-vars>` props (as Property, with the component as
+     * container) whose name fuzzily matches the query. Served entirely from the component
+     * index's cached `getAllComponents`, so a query never touches the disk once it's built.
+     */
+    async handleWorkspaceSymbols(query: string): Promise<SymbolInformation[]> {
+        const components = await this.componentIndex.getAllComponents();
+        const matches: { symbol: SymbolInformation; score: number }[] = [];
+
+        for (const component of components) {
+            const uri = URI.file(component.filePath).toString();
+
+            const componentScore = this.fuzzyScore(query, component.name);
+            if (componentScore !== null) {
+                matches.push({
+                    symbol: SymbolInformation.create(
+                        component.name,
+                        SymbolKind.Class,
+                        Range.create(Position.create(0, 0), Position.create(0, 0)),
+                        uri
+                    ),
+                    score: componentScore
+                });
+            }
+
+            for (const cVar of component.cVars) {
+                const propScore = this.fuzzyScore(query, cVar.name);
+                if (propScore === null) continue;
+
+                matches.push({
+                    symbol: {
+                        name: cVar.name,
+                        kind: SymbolKind.Property,
+                        location: Location.create(uri, Range.create(
+                            cVar.position,
+                            Position.create(cVar.position.line, cVar.position.character + cVar.name.length)
+                        )),
+                        containerName: component.name
+                    },
+                    score: propScore
+                });
+            }
+        }
+
+        return matches
+            .sort((a, b) => a.score - b.score || a.symbol.name.localeCompare(b.symbol.name))
+            .map(m => m.symbol);
+    }
+
+    /**
+     * Case-insensitive subsequence match, so `crdhead` finds `card.header`. Returns null when
+     * the query doesn't match, otherwise a score where lower is better: an exact or prefix
+     * match first, then a match starting at a dotted segment (`header` in `card.header`),
+     * then looser matches ranked by how spread out the matched characters are.
+     */
+    private fuzzyScore(query: string, name: string): number | null {
+        const needle = query.toLowerCase().replace(/\s+/g, '');
+        const haystack = name.toLowerCase();
+        if (!needle) return 0;
+
+        if (haystack === needle) return 0;
+        if (haystack.startsWith(needle)) return 1;
+        if (haystack.includes('.' + needle) || haystack.includes('-' + needle)) return 2;
+
+        let position = -1;
+        let firstMatch = -1;
+        for (const char of needle) {
+            position = haystack.indexOf(char, position + 1);
+            if (position === -1) return null;
+            if (firstMatch === -1) firstMatch = position;
+        }
+
+        return 3 + (position - firstMatch + 1 - needle.length);
+    }
+}
@@ -11,8 +11,19 @@ import {
     TextDocumentSyncKind,
     CompletionParams,
     DefinitionParams,
+    DocumentSymbolParams,
     HoverParams,
+    InlayHintParams,
     ReferenceParams,
+    PrepareRenameParams,
+    CodeActionParams,
+    CodeActionKind,
+    RenameParams,
+    SemanticTokensParams,
+    SemanticTokensRangeParams,
+    SignatureHelpParams,
+    WorkspaceSymbolParams,
+    ResourceOperationKind,
     FileChangeType,
     DidChangeConfigurationNotification
 } from 'vscode-languageserver/node';
@@ -20,76 +31,103 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
 
 import { CottonParser } from './cottonParser';
-import { ComponentIndex } from './utils/componentIndex';
-import { UsageIndex } from './utils/usageIndex';
-import { CompletionHandler } from './handlers/completion';
-import { DefinitionHandler } from './handlers/definition';
-import { DiagnosticsHandler } from './handlers/diagnostics';
-import { HoverHandler } from './handlers/hover';
-import { ReferencesHandler } from './handlers/references';
-
-const CONFIG_FILE_NAME = 'cotton.config.json';
+import { CottonWorkspace } from './cottonWorkspace';
+import { CONFIG_FILE_NAME, CottonSettings, defaultSettings, loadProjectConfig, parseSettings } from './settings';
+import { isDjangoSettingsFile } from './utils/djangoSettings';
+import { statFile } from './utils/indexCache';
+import { SEMANTIC_TOKENS_LEGEND } from './handlers/semanticTokens';
 
 const connection = createConnection(ProposedFeatures.all);
 const documents = new TextDocuments(TextDocument);
 
-let workspaceRoot: string;
 let parser: CottonParser;
-let componentIndex: ComponentIndex;
-let usageIndex: UsageIndex;
-let completionHandler: CompletionHandler;
-let definitionHandler: DefinitionHandler;
-let diagnosticsHandler: DiagnosticsHandler;
-let hoverHandler: HoverHandler;
-let referencesHandler: ReferencesHandler;
-
-interface CottonSettings {
-    templatePaths: string[];
-}
+let workspaces: CottonWorkspace[] = [];
+let cacheDirectory: string | undefined;
 
-const defaultSettings: CottonSettings = {
-    templatePaths: ['templates/cotton']
-};
-
-let globalSettings: CottonSettings = defaultSettings;
 let hasConfigurationCapability = false;
+let hasWorkspaceFolderCapability = false;
+let hasRenameFileCapability = false;
+let hasCreateFileCapability = false;
+let hasInlayHintRefreshCapability = false;
 let initOptions: Partial<CottonSettings> = {};
 
+// Settles once every folder's settings (and discovered template paths) are first loaded.
+// Documents aren't validated before then, or components outside the default template path
+// would be reported as missing.
+let configurationLoaded: Promise<void> = Promise.resolve();
+
 connection.onInitialize((params: InitializeParams): InitializeResult => {
     hasConfigurationCapability = !!(
         params.capabilities.workspace?.configuration
     );
+    hasWorkspaceFolderCapability = !!(
+        params.capabilities.workspace?.workspaceFolders
+    );
+    hasRenameFileCapability = !!(
+        params.capabilities.workspace?.workspaceEdit?.documentChanges &&
+        params.capabilities.workspace.workspaceEdit.resourceOperations?.includes(ResourceOperationKind.Rename)
+    );
+    hasCreateFileCapability = !!(
+        params.capabilities.workspace?.workspaceEdit?.documentChanges &&
+        params.capabilities.workspace.workspaceEdit.resourceOperations?.includes(ResourceOperationKind.Create)
+    );
+    hasInlayHintRefreshCapability = !!(
+        params.capabilities.workspace?.inlayHint?.refreshSupport
+    );
 
     // Store initialization options from LSP client (Neovim, Sublime, etc.)
-    initOptions = (params.initializationOptions as Partial<CottonSettings>) || {};
+    initOptions = parseSettings(params.initializationOptions);
 
-    workspaceRoot = params.workspaceFolders?.[0]?.uri 
-        ? URI.parse(params.workspaceFolders[0].uri).fsPath
-        : params.rootUri 
-            ? URI.parse(params.rootUri).fsPath
-            : process.cwd();
+    // Both indexes can be persisted between sessions. The VS Code extension passes its workspace
+    // storage folder; other clients opt in by setting `cacheDirectory`, and nothing is written
+    // to disk without it.
+    if (typeof params.initializationOptions?.cacheDirectory === 'string') {
+        cacheDirectory = params.initializationOptions.cacheDirectory;
+    }
 
     parser = new CottonParser();
-    componentIndex = new ComponentIndex(workspaceRoot, defaultSettings.templatePaths);
-    usageIndex = new UsageIndex(workspaceRoot);
-    completionHandler = new CompletionHandler(parser, componentIndex);
-    definitionHandler = new DefinitionHandler(parser, componentIndex);
-    diagnosticsHandler = new DiagnosticsHandler(parser, componentIndex);
-    hoverHandler = new HoverHandler(parser, componentIndex);
-    referencesHandler = new ReferencesHandler(parser, componentIndex, usageIndex);
 
-    usageIndex.onChange(() => { notifyUnusedComponents(); });
+    // One CottonWorkspace per workspace folder, each with its own settings and indexes.
+    // Clients without workspace folder support get a single one for the root.
+    const roots = params.workspaceFolders?.length
+        ? params.workspaceFolders.map(folder => URI.parse(folder.uri).fsPath)
+        : [params.rootUri ? URI.parse(params.rootUri).fsPath : process.cwd()];
+    roots.forEach(addWorkspace);
 
     return {
         capabilities: {
             textDocumentSync: TextDocumentSyncKind.Incremental,
             completionProvider: {
                 resolveProvider: false,
-                triggerCharacters: ['<', ' ', ':', '=', '"']
+                triggerCharacters: ['<', ' ', ':', '=', '"', '|', '%']
             },
             definitionProvider: true,
             hoverProvider: true,
-            referencesProvider: true
+            signatureHelpProvider: {
+                triggerCharacters: [' ', ':'],
+                retriggerCharacters: ['=', '"']
+            },
+            referencesProvider: true,
+            renameProvider: {
+                prepareProvider: true
+            },
+            codeActionProvider: {
+                codeActionKinds: [CodeActionKind.QuickFix]
+            },
+            documentSymbolProvider: true,
+            workspaceSymbolProvider: true,
+            inlayHintProvider: true,
+            semanticTokensProvider: {
+                legend: SEMANTIC_TOKENS_LEGEND,
+                full: true,
+                range: true
+            },
+            workspace: {
+                workspaceFolders: {
+                    supported: true,
+                    changeNotifications: true
+                }
+            }
         }
     };
 });
@@ -98,87 +136,133 @@ connection.onInitialized(() => {
     if (hasConfigurationCapability) {
         connection.client.register(DidChangeConfigurationNotification.type, undefined);
     }
-    updateConfiguration();
+    configurationLoaded = updateConfiguration();
 
     // Kick off the one-time full workspace usage scan in the background - it's not
     // needed to answer completion/definition/hover requests, only references and the
     // unused-component decorations, so there's no reason to block startup on it.
-    usageIndex.ensureBuilt();
+    workspaces.forEach(buildUsageIndex);
+
+    if (hasWorkspaceFolderCapability) {
+        connection.workspace.onDidChangeWorkspaceFolders(async event => {
+            const removedRoots = event.removed.map(folder => URI.parse(folder.uri).fsPath);
+            workspaces = workspaces.filter(workspace => !removedRoots.includes(workspace.root));
+
+            const added = event.added.map(folder => addWorkspace(URI.parse(folder.uri).fsPath));
+            await Promise.all(added.map(configureWorkspace));
+            added.forEach(buildUsageIndex);
+
+            notifyUnusedComponents();
+            documents.all().forEach(validateDocument);
+        });
+    }
 });
 
+function addWorkspace(root: string): CottonWorkspace {
+    const workspace = new CottonWorkspace(root, parser, documents, cacheDirectory);
+    workspace.usageIndex.onChange(() => { notifyUnusedComponents(); });
+    workspaces.push(workspace);
+    return workspace;
+}
+
+/**
+ * Start a folder's full usage scan. Diagnostics that depend on usage counts (e.g.
+ * `cotton-prop-never-passed`) are left out until it finishes, so its open documents are
+ * validated again then.
+ */
+async function buildUsageIndex(workspace: CottonWorkspace): Promise<void> {
+    await workspace.usageIndex.ensureBuilt();
+    documents.all()
+        .filter(document => getWorkspace(document.uri) === workspace)
+        .forEach(validateDocument);
+}
+
+/**
+ * The workspace folder a document belongs to - the innermost one containing it, for nested
+ * folders. Files outside every folder are served by the first one.
+ */
+function getWorkspace(uri: string): CottonWorkspace | undefined {
+    const filePath = URI.parse(uri).fsPath;
+    const containing = workspaces
+        .filter(workspace => workspace.contains(filePath))
+        .sort((a, b) => b.root.length - a.root.length);
+    return containing[0] ?? workspaces[0];
+}
+
+/** An open document together with the workspace folder that handles it. */
+function getDocumentWorkspace(uri: string): { document: TextDocument; workspace: CottonWorkspace } | null {
+    const document = documents.get(uri);
+    const workspace = getWorkspace(uri);
+    return document && workspace ? { document, workspace } : null;
+}
+
 /**
  * Push the current list of unused component file paths to the client, which renders
  * them as file-explorer decorations. Called after the initial scan and after every
  * incremental update, but each call is cheap (see UsageIndex benchmarks).
  */
 async function notifyUnusedComponents(): Promise<void> {
-    const allComponents = await componentIndex.getAllComponents();
-    const unusedPaths = usageIndex.getUnusedComponentPaths(allComponents);
     connection.sendNotification('cotton/unusedComponents', {
-        uris: unusedPaths.map(p => URI.file(p).toString())
+        uris: await getUnusedComponentUris()
     });
 }
 
+async function getUnusedComponentUris(): Promise<string[]> {
+    const uris: string[] = [];
+    for (const workspace of workspaces) {
+        const allComponents = await workspace.componentIndex.getAllComponents();
+        const unusedPaths = workspace.usageIndex.getUnusedComponentPaths(allComponents);
+        uris.push(...unusedPaths.map(p => URI.file(p).toString()));
+    }
+    return uris;
+}
+
+async function updateConfiguration() {
+    await Promise.all(workspaces.map(configureWorkspace));
+    if (hasInlayHintRefreshCapability) {
+        connection.languages.inlayHint.refresh();
+    }
+}
+
 /**
- * Load settings with priority:
- * 1. Editor configuration (VS Code settings.json)
+ * Load a workspace folder's settings with priority:
+ * 1. Editor configuration (VS Code settings.json, including folder-level settings)
  * 2. LSP initialization options (Neovim, Sublime, etc.)
- * 3. Project config file (cotton.config.json)
+ * 3. Project config file (cotton.config.json in the folder's root)
  * 4. Default settings
+ * When none of 1-3 sets templatePaths, they're discovered from the project's Django settings
+ * instead, falling back to the default if nothing is found there.
  */
-async function updateConfiguration() {
-    let settings: CottonSettings = { ...defaultSettings };
+async function configureWorkspace(workspace: CottonWorkspace) {
+    const settings: CottonSettings = { ...defaultSettings };
 
     // Try project config file first (lowest priority that overrides defaults)
-    const fileConfig = await loadProjectConfig();
-    if (fileConfig?.templatePaths) {
-        settings.templatePaths = fileConfig.templatePaths;
-    }
+    const fileConfig = await loadProjectConfig(workspace.root);
+    Object.assign(settings, fileConfig);
 
     // LSP initialization options override file config
-    if (initOptions.templatePaths) {
-        settings.templatePaths = initOptions.templatePaths;
-    }
+    Object.assign(settings, initOptions);
 
     // Editor configuration has highest priority
+    let editorSettings: Partial<CottonSettings> = {};
     if (hasConfigurationCapability) {
-        const editorConfig = await connection.workspace.getConfiguration('djangoCotton');
-        if (editorConfig?.templatePaths) {
-            settings.templatePaths = editorConfig.templatePaths;
-        }
+        const editorConfig = await connection.workspace.getConfiguration({ scopeUri: workspace.uri, section: 'djangoCotton' });
+        editorSettings = parseSettings(editorConfig);
+        Object.assign(settings, editorSettings);
     }
 
-    globalSettings = settings;
-    componentIndex.updateSettings(globalSettings.templatePaths);
-}
-
-/**
- * Load configuration from cotton.config.json in the workspace root
- */
-async function loadProjectConfig(): Promise<Partial<CottonSettings> | null> {
-    const configPath = path.join(workspaceRoot, CONFIG_FILE_NAME);
-    
-    try {
-        const content = await fs.promises.readFile(configPath, 'utf-8');
-        const config = JSON.parse(content);
-        
-        // Validate the config
-        if (config && typeof config === 'object') {
-            const result: Partial<CottonSettings> = {};
-            
-            if (Array.isArray(config.templatePaths)) {
-                result.templatePaths = config.templatePaths.filter(
-                    (p: unknown) => typeof p === 'string'
-                );
-            }
-            
-            return result;
-        }
-    } catch {
-        // Config file doesn't exist or is invalid - that's fine
+    const isConfigured = !!(fileConfig?.templatePaths || initOptions.templatePaths || editorSettings.templatePaths);
+    workspace.discoveredTemplatePaths = isConfigured ? [] : await workspace.discoverTemplatePaths();
+    if (isConfigured) {
+        workspace.templatePathsSource = 'configured';
+    } else if (workspace.discoveredTemplatePaths.length > 0) {
+        settings.templatePaths = workspace.discoveredTemplatePaths.map(d => d.path);
+        workspace.templatePathsSource = 'discovered';
+    } else {
+        workspace.templatePathsSource = 'default';
     }
-    
-    return null;
+
+    workspace.updateSettings(settings);
 }
 
 connection.onDidChangeConfiguration(async () => {
@@ -187,27 +271,80 @@ connection.onDidChangeConfiguration(async () => {
 });
 
 connection.onCompletion(async (params: CompletionParams) => {
-    const document = documents.get(params.textDocument.uri);
-    if (!document) return [];
-    return completionHandler.handleCompletion(document, params.position);
+    const target = getDocumentWorkspace(params.textDocument.uri);
+    if (!target) return [];
+    return target.workspace.completionHandler.handleCompletion(target.document, params.position);
 });
 
 connection.onDefinition(async (params: DefinitionParams) => {
-    const document = documents.get(params.textDocument.uri);
-    if (!document) return null;
-    return definitionHandler.handleDefinition(document, params.position);
+    const target = getDocumentWorkspace(params.textDocument.uri);
+    if (!target) return null;
+    return target.workspace.definitionHandler.handleDefinition(target.document, params.position);
 });
 
 connection.onHover(async (params: HoverParams) => {
-    const document = documents.get(params.textDocument.uri);
-    if (!document) return null;
-    return hoverHandler.handleHover(document, params.position);
+    const target = getDocumentWorkspace(params.textDocument.uri);
+    if (!target) return null;
+    return target.workspace.hoverHandler.handleHover(target.document, params.position);
+});
+
+connection.onSignatureHelp(async (params: SignatureHelpParams) => {
+    const target = getDocumentWorkspace(params.textDocument.uri);
+    if (!target) return null;
+    return target.workspace.signatureHelpHandler.handleSignatureHelp(target.document, params.position);
 });
 
 connection.onReferences(async (params: ReferenceParams) => {
-    const document = documents.get(params.textDocument.uri);
-    if (!document) return null;
-    return referencesHandler.handleReferences(document, params.position, params.context.includeDeclaration);
+    const target = getDocumentWorkspace(params.textDocument.uri);
+    if (!target) return null;
+    return target.workspace.referencesHandler.handleReferences(target.document, params.position, params.context.includeDeclaration);
+});
+
+connection.onDocumentSymbol(async (params: DocumentSymbolParams) => {
+    const target = getDocumentWorkspace(params.textDocument.uri);
+    if (!target) return null;
+    return target.workspace.documentSymbolHandler.handleDocumentSymbols(target.document);
+});
+
+connection.languages.inlayHint.on(async (params: InlayHintParams) => {
+    const target = getDocumentWorkspace(params.textDocument.uri);
+    if (!target) return null;
+    return target.workspace.inlayHintHandler.handleInlayHints(target.document, params.range);
+});
+
+connection.languages.semanticTokens.on(async (params: SemanticTokensParams) => {
+    const target = getDocumentWorkspace(params.textDocument.uri);
+    if (!target) return { data: [] };
+    return target.workspace.semanticTokensHandler.handleSemanticTokens(target.document);
+});
+
+connection.languages.semanticTokens.onRange(async (params: SemanticTokensRangeParams) => {
+    const target = getDocumentWorkspace(params.textDocument.uri);
+    if (!target) return { data: [] };
+    return target.workspace.semanticTokensHandler.handleSemanticTokens(target.document, params.range);
+});
+
+connection.onWorkspaceSymbol(async (params: WorkspaceSymbolParams) => {
+    const results = await Promise.all(workspaces.map(w => w.workspaceSymbolHandler.handleWorkspaceSymbols(params.query)));
+    return results.flat();
+});
+
+connection.onPrepareRename(async (params: PrepareRenameParams) => {
+    const target = getDocumentWorkspace(params.textDocument.uri);
+    if (!target) return null;
+    return target.workspace.renameHandler.prepareRename(target.document, params.position);
+});
+
+connection.onRenameRequest(async (params: RenameParams) => {
+    const target = getDocumentWorkspace(params.textDocument.uri);
+    if (!target) return null;
+    return target.workspace.renameHandler.handleRename(target.document, params.position, params.newName, hasRenameFileCapability);
+});
+
+connection.onCodeAction(async (params: CodeActionParams) => {
+    const target = getDocumentWorkspace(params.textDocument.uri);
+    if (!target) return [];
+    return target.workspace.codeActionHandler.handleCodeActions(target.document, params.context.diagnostics, hasCreateFileCapability);
 });
 
 /**
@@ -216,32 +353,53 @@ connection.onReferences(async (params: ReferenceParams) => {
  * usage, return every place that component is used across the workspace.
  */
 connection.onRequest('cotton/referencesForFile', async ({ uri }: { uri: string }) => {
-    const filePath = path.normalize(URI.parse(uri).fsPath);
-    const allComponents = await componentIndex.getAllComponents();
-    const match = allComponents.find(c => path.normalize(c.filePath) === filePath);
-    if (!match) return [];
+    const workspace = getWorkspace(uri);
+    const match = await workspace?.componentIndex.findComponentByFilePath(URI.parse(uri).fsPath);
+    if (!workspace || !match) return [];
 
-    await usageIndex.ensureBuilt();
-    return usageIndex.getReferences(match.name);
+    await workspace.usageIndex.ensureBuilt();
+    return workspace.usageIndex.getReferences(match.name);
 });
 
 connection.onRequest('cotton/getUnusedComponents', async () => {
-    const allComponents = await componentIndex.getAllComponents();
-    const unusedPaths = usageIndex.getUnusedComponentPaths(allComponents);
-    return { uris: unusedPaths.map(p => URI.file(p).toString()) };
+    return { uris: await getUnusedComponentUris() };
+});
+
+/**
+ * Custom request backing the "Show Template Paths" command: reports, per workspace folder,
+ * the template paths in use and where each one came from.
+ */
+connection.onRequest('cotton/templatePaths', async () => {
+    await configurationLoaded;
+
+    return workspaces.map(workspace => ({
+        folder: workspace.uri,
+        source: workspace.templatePathsSource,
+        templatePaths: workspace.settings.templatePaths,
+        discovered: workspace.discoveredTemplatePaths
+    }));
 });
 
 async function validateDocument(document: TextDocument): Promise<void> {
-    const diagnostics = await diagnosticsHandler.getDiagnostics(document);
+    await configurationLoaded;
+    const workspace = getWorkspace(document.uri);
+    if (!workspace) return;
+    const diagnostics = await workspace.diagnosticsHandler.getDiagnostics(document);
     connection.sendDiagnostics({ uri: document.uri, diagnostics });
 }
 
 documents.onDidOpen(event => validateDocument(event.document));
-documents.onDidChangeContent(event => {
+documents.onDidChangeContent(async event => {
     // Keep the usage index in sync as the user types - this only rescans the one
     // changed document (cheap), not the whole workspace.
-    usageIndex.updateFile(event.document.uri, event.document.getText());
+    getWorkspace(event.document.uri)?.usageIndex.updateFile(event.document.uri, event.document.getText());
     validateDocument(event.document);
+
+    // Open component files are indexed from their buffer, so an unsaved `<c-vars>` edit
+    // shows up in every other open template's diagnostics once typing pauses.
+    if (await syncOpenComponent(event.document)) {
+        scheduleRevalidation();
+    }
 });
 documents.onDidSave(async event => {
     // Check if the config file was saved
@@ -250,13 +408,53 @@ documents.onDidSave(async event => {
         await updateConfiguration();
     }
     
-    componentIndex.invalidateCache();
+    await Promise.all(workspaces.map(w => w.componentIndex.updateFile(savedPath)));
     validateDocument(event.document);
 });
-documents.onDidClose(event => {
+documents.onDidClose(async event => {
     connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+
+    // Closing a component without saving discards its buffer - go back to what's on disk.
+    if (await syncOpenComponent(event.document)) {
+        documents.all().forEach(validateDocument);
+    }
 });
 
+/**
+ * Re-index an open document in every folder whose template paths it's a component under
+ * (a folder's `templatePaths` can point into another folder). Returns whether any did.
+ */
+async function syncOpenComponent(document: TextDocument): Promise<boolean> {
+    if (!document.uri.startsWith('file:')) return false;
+    const filePath = URI.parse(document.uri).fsPath;
+    const indexes = [];
+    for (const workspace of workspaces) {
+        if (await workspace.componentIndex.isComponentFile(filePath)) {
+            indexes.push(workspace.componentIndex);
+        }
+    }
+    if (indexes.length === 0) return false;
+
+    const results = await Promise.all(indexes.map(index => index.updateFile(filePath)));
+    return results.includes(true);
+}
+
+let revalidationTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Validate every open document after a short quiet period, so typing in a component
+ * re-checks the templates that use it once per pause rather than once per keystroke.
+ */
+function scheduleRevalidation(): void {
+    if (revalidationTimer) {
+        clearTimeout(revalidationTimer);
+    }
+    revalidationTimer = setTimeout(() => {
+        revalidationTimer = null;
+        documents.all().forEach(validateDocument);
+    }, 300);
+}
+
 /**
  * The client watches every .html file in the workspace via a FileSystemWatcher (see
  * src/client/extension.ts) and forwards changes here even for files that were never opened
@@ -267,26 +465,45 @@ documents.onDidClose(event => {
  */
 connection.onDidChangeWatchedFiles(async params => {
     let changed = false;
+    let settingsChanged = false;
 
     for (const change of params.changes) {
+        const filePath = URI.parse(change.uri).fsPath;
+
+        // The client also watches Django settings modules: template paths discovered from them
+        // are only looked up again when one changes.
+        if (isDjangoSettingsFile(filePath)) {
+            workspaces.filter(w => w.contains(filePath)).forEach(w => w.forgetDiscoveredTemplatePaths());
+            settingsChanged = true;
+            continue;
+        }
+
+        // Usages are indexed by the folder the file is in; components by every folder whose
+        // template paths the file might be under.
         if (change.type === FileChangeType.Deleted) {
-            usageIndex.removeFile(change.uri);
+            getWorkspace(change.uri)?.usageIndex.removeFile(change.uri);
+            workspaces.forEach(w => w.componentIndex.removeFile(filePath));
             changed = true;
             continue;
         }
 
         try {
-            const filePath = URI.parse(change.uri).fsPath;
+            const stamp = await statFile(filePath);
             const content = await fs.promises.readFile(filePath, 'utf-8');
-            usageIndex.updateFile(change.uri, content);
+            getWorkspace(change.uri)?.usageIndex.updateFile(change.uri, content, stamp ?? undefined);
+            await Promise.all(workspaces.map(w => w.componentIndex.updateFile(filePath, change.type === FileChangeType.Created)));
             changed = true;
         } catch {
             // File may have been removed/renamed between the event and this read - skip it.
         }
     }
 
+    if (settingsChanged) {
+        await updateConfiguration();
+        changed = true;
+    }
+
     if (changed) {
-        componentIndex.invalidateCache();
         documents.all().forEach(validateDocument);
     }
 });
@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiagnosticSeveritySetting } from './handlers/diagnostics';
+import { PropHintsSetting } from './handlers/inlayHints';
+
+export const CONFIG_FILE_NAME = 'cotton.config.json';
+
+export interface CottonSettings {
+    templatePaths: string[];
+    unknownPropSeverity: DiagnosticSeveritySetting;
+    blockTagSeverity: DiagnosticSeveritySetting;
+    passThroughAttributes: string[];
+    defaultedPropHints: PropHintsSetting;
+    hoverPreviewLines: number;
+}
+
+export const defaultSettings: CottonSettings = {
+    templatePaths: ['templates/cotton'],
+    unknownPropSeverity: 'warning',
+    blockTagSeverity: 'warning',
+    passThroughAttributes: [],
+    defaultedPropHints: 'all',
+    hoverPreviewLines: 10
+};
+
+const SEVERITY_SETTINGS: DiagnosticSeveritySetting[] = ['error', 'warning', 'information', 'hint', 'off'];
+const PROP_HINTS_SETTINGS: PropHintsSetting[] = ['all', 'required', 'off'];
+
+/**
+ * Load configuration from cotton.config.json in a workspace folder's root
+ */
+export async function loadProjectConfig(workspaceRoot: string): Promise<Partial<CottonSettings> | null> {
+    const configPath = path.join(workspaceRoot, CONFIG_FILE_NAME);
+
+    try {
+        const content = await fs.promises.readFile(configPath, 'utf-8');
+        return parseSettings(JSON.parse(content));
+    } catch {
+        // Config file doesn't exist or is invalid - that's fine
+    }
+
+    return null;
+}
+
+/**
+ * Pick out the recognised, well-typed settings from a raw config object (cotton.config.json,
+ * initializationOptions or editor configuration), dropping anything missing or malformed so
+ * it falls through to the next source in priority order.
+ */
+export function parseSettings(config: unknown): Partial<CottonSettings> {
+    const result: Partial<CottonSettings> = {};
+    if (!config || typeof config !== 'object') {
+        return result;
+    }
+
+    const raw = config as Record<string, unknown>;
+    const stringArray = (value: unknown): string[] | undefined => Array.isArray(value)
+        ? value.filter((p: unknown): p is string => typeof p === 'string')
+        : undefined;
+
+    // An empty list means "not configured", so template paths are discovered from Django settings.
+    const templatePaths = stringArray(raw.templatePaths);
+    if (templatePaths && templatePaths.length > 0) {
+        result.templatePaths = templatePaths;
+    }
+
+    if (SEVERITY_SETTINGS.includes(raw.unknownPropSeverity as DiagnosticSeveritySetting)) {
+        result.unknownPropSeverity = raw.unknownPropSeverity as DiagnosticSeveritySetting;
+    }
+
+    if (SEVERITY_SETTINGS.includes(raw.blockTagSeverity as DiagnosticSeveritySetting)) {
+        result.blockTagSeverity = raw.blockTagSeverity as DiagnosticSeveritySetting;
+    }
+
+    const passThroughAttributes = stringArray(raw.passThroughAttributes);
+    if (passThroughAttributes) {
+        result.passThroughAttributes = passThroughAttributes;
+    }
+
+    if (PROP_HINTS_SETTINGS.includes(raw.defaultedPropHints as PropHintsSetting)) {
+        result.defaultedPropHints = raw.defaultedPropHints as PropHintsSetting;
+    }
+
+    if (typeof raw.hoverPreviewLines === 'number' && raw.hoverPreviewLines >= 0) {
+        result.hoverPreviewLines = Math.floor(raw.hoverPreviewLines);
+    }
+
+    return result;
+}
@@ -0,0 +1,229 @@
+import { TemplateToken } from '../cottonTokenizer';
+
+/** A prop's `@param {type}` annotation. */
+export type PropType =
+    | { kind: 'enum'; values: string[] }
+    | { kind: 'boolean' }
+    | { kind: 'number' }
+    | { kind: 'string' };
+
+export interface DocEntry {
+    name: string;
+    description: string;
+    type?: PropType;
+    deprecated?: string;   // `@param old @deprecated use new` - the text after the marker
+    replacement?: string;  // Prop named by `use <name>` in the deprecation text
+}
+
+export interface ComponentDocs {
+    description: string;
+    params: DocEntry[];
+    slots: DocEntry[];
+    examples: string[];
+    deprecated?: string;   // Present (possibly empty) when the component is marked @deprecated
+    replacement?: string;  // Component named by `use c-name` / `use <c-name>` in the deprecation text
+}
+
+const DOC_TAGS = ['param', 'slot', 'example', 'deprecated', 'required'];
+
+/**
+ * Parse the doc block at the top of a component file: every comment (`<!-- -->`, `{# #}` or
+ * `{% comment %}`) that comes before the first tag, e.g.
+ *
+ *     {#
+ *       Card with an optional header.
+ *       @param title Heading shown above the body
+ *       @slot footer Rendered below the body
+ *       @example <c-card title="Hi">Body</c-card>
+ *       @deprecated Use <c-panel> instead
+ *     #}
+ *
+ * Untagged text is the description. A tag's text runs until the next tag, so descriptions and
+ * examples can span lines. A prop is deprecated by starting its description with the marker:
+ * `@param colour @deprecated use color`. A prop's type goes in braces before its name, as in
+ * JSDoc: `@param {sm|md|lg} size`, `{boolean}`, `{number}` or `{string}`. JSDoc-style leading
+ * `*`s are stripped. `@required` is read separately by ComponentIndex and ignored here.
+ * Returns undefined when there's no doc block.
+ */
+export function parseComponentDocs(tokens: TemplateToken[]): ComponentDocs | undefined {
+    const bodies: string[] = [];
+    for (const token of tokens) {
+        if (token.type === 'tag') break;
+        if (token.type === 'comment') bodies.push(token.body);
+    }
+    if (bodies.length === 0) return undefined;
+
+    const docs: ComponentDocs = { description: '', params: [], slots: [], examples: [] };
+    const description: string[] = [];
+    let current: { tag: string; lines: string[]; inline: boolean } | null = null;
+
+    const flush = () => {
+        if (!current) return;
+        let text = trimBlankLines(current.lines).join('\n');
+        let type: PropType | undefined;
+        const typeMatch = current.tag === 'param' ? text.match(/^\s*\{([^}]*)\}\s*/) : null;
+        if (typeMatch) {
+            type = parsePropType(typeMatch[1]);
+            text = text.slice(typeMatch[0].length);
+        }
+        const [, name = '', rest = ''] = text.match(/^([\w.-]+)\s*([\s\S]*)$/) || [];
+
+        if (current.tag === 'param' && name) {
+            const description = rest.replace(/\s+/g, ' ').trim();
+            const deprecatedMatch = description.match(/^@deprecated\b\s*(.*)$/);
+            if (deprecatedMatch) {
+                const replacement = deprecatedMatch[1].match(/\buse\s+:?([\w-]+)/i)?.[1];
+                docs.params.push({ name, description: '', type, deprecated: deprecatedMatch[1], replacement });
+            } else {
+                docs.params.push({ name, description, type });
+            }
+        } else if (current.tag === 'slot' && name) {
+            docs.slots.push({ name, description: rest.replace(/\s+/g, ' ').trim() });
+        } else if (current.tag === 'example' && text) {
+            // Text on the `@example` line itself has no comment indentation to strip.
+            docs.examples.push(current.inline
+                ? [current.lines[0], ...dedent(current.lines.slice(1))].join('\n').trim()
+                : dedent(current.lines).join('\n'));
+        } else if (current.tag === 'deprecated') {
+            docs.deprecated = text;
+            // Dots join the parts of a nested name (`c-forms.input`), not a sentence-ending `.`.
+            docs.replacement = text.match(/\buse\s+<?c-([\w-]+(?:\.[\w-]+)*)/i)?.[1];
+        }
+        current = null;
+    };
+
+    for (const body of bodies) {
+        for (const rawLine of body.split('\n')) {
+            const line = rawLine.replace(/^\s*\*(?!\*)\s?/, '');
+            const tagMatch = line.match(/^\s*@(\w+)\s?(.*)$/);
+
+            // Only known tags start a new section, so an `@click` in an example stays put.
+            if (tagMatch && DOC_TAGS.includes(tagMatch[1])) {
+                flush();
+                current = { tag: tagMatch[1], lines: tagMatch[2] ? [tagMatch[2]] : [], inline: !!tagMatch[2] };
+            } else if (current) {
+                current.lines.push(line);
+            } else {
+                description.push(line.trim());
+            }
+        }
+        flush();
+    }
+
+    docs.description = trimBlankLines(description).join('\n');
+
+    const isEmpty = !docs.description && docs.params.length === 0 && docs.slots.length === 0
+        && docs.examples.length === 0 && docs.deprecated === undefined;
+    return isEmpty ? undefined : docs;
+}
+
+export function findParam(docs: ComponentDocs | undefined, propName: string): DocEntry | undefined {
+    const normalized = propName.replace(/-/g, '_');
+    return docs?.params.find(p => p.name.replace(/-/g, '_') === normalized);
+}
+
+/** Markdown for a prop's `@param` text, with a deprecation notice if it's marked deprecated. */
+export function findParamDoc(docs: ComponentDocs | undefined, propName: string): string | undefined {
+    const param = findParam(docs, propName);
+    if (param?.deprecated !== undefined) {
+        return `**Deprecated.**${param.deprecated ? ' ' + param.deprecated : ''}`;
+    }
+    return param?.description || undefined;
+}
+
+/**
+ * Markdown for a component's whole doc block: renderDocSummary followed by renderDocDetails.
+ */
+export function renderComponentDocs(docs: ComponentDocs): string {
+    return [renderDocSummary(docs), renderDocDetails(docs)].filter(Boolean).join('\n\n');
+}
+
+/** Deprecation notice and description. */
+export function renderDocSummary(docs: ComponentDocs): string {
+    const sections: string[] = [];
+    if (docs.deprecated !== undefined) {
+        sections.push(`**Deprecated.**${docs.deprecated ? ' ' + docs.deprecated : ''}`);
+    }
+    if (docs.description) {
+        sections.push(docs.description);
+    }
+    return sections.join('\n\n');
+}
+
+/** Documented slots and examples. */
+export function renderDocDetails(docs: ComponentDocs): string {
+    const sections: string[] = [];
+    if (docs.slots.length > 0) {
+        sections.push(['**Slots:**', ...docs.slots.map(s => `- \`${s.name}\`${s.description ? ` - ${s.description}` : ''}`)].join('\n'));
+    }
+    for (const example of docs.examples) {
+        sections.push(['**Example:**', '```html', example, '```'].join('\n'));
+    }
+    return sections.join('\n\n');
+}
+
+/**
+ * `boolean`, `number` / `int` / `float`, `string` / `str`, or an enum of `|`-separated values,
+ * each optionally quoted (`sm|md|lg`, `'primary' | 'secondary'`). Anything else is free text.
+ */
+function parsePropType(annotation: string): PropType {
+    const trimmed = annotation.trim();
+    const lower = trimmed.toLowerCase();
+
+    if (lower === 'boolean' || lower === 'bool') return { kind: 'boolean' };
+    if (lower === 'number' || lower === 'int' || lower === 'float') return { kind: 'number' };
+    if (trimmed.includes('|')) {
+        const values = trimmed.split('|').map(v => v.trim().replace(/^(['"])(.*)\1$/, '$2')).filter(Boolean);
+        if (values.length > 0) return { kind: 'enum', values };
+    }
+    return { kind: 'string' };
+}
+
+/** How a prop type reads in hover and diagnostics, e.g. `"sm" | "md" | "lg"`. */
+export function formatPropType(type: PropType): string {
+    return type.kind === 'enum' ? type.values.map(v => `"${v}"`).join(' | ') : type.kind;
+}
+
+/**
+ * Whether an attribute value can satisfy a prop type. Static values are checked as written
+ * (a valueless attribute is `True`); `:dynamic` values only when they're a literal Cotton
+ * evaluates (`'sm'`, `3`, `True`, `[...]`) - a bare name is a context variable whose value
+ * isn't known here. Values containing template syntax, and `None`, are never flagged.
+ */
+export function isValueCompatible(type: PropType, value: string | null, isDynamic: boolean): boolean {
+    if (type.kind === 'string') return true;
+    if (value !== null && /\{[{%]/.test(value)) return true;
+
+    if (!isDynamic) {
+        if (value === null) return type.kind === 'boolean';
+        if (type.kind === 'enum') return type.values.includes(value);
+        if (type.kind === 'number') return /^\s*-?\d+(\.\d+)?\s*$/.test(value);
+        return true;
+    }
+
+    const literal = (value || '').trim();
+    const stringLiteral = literal.match(/^(['"])([\s\S]*)\1$/);
+    const isNumber = /^-?\d+(\.\d+)?$/.test(literal);
+    const isBoolean = literal === 'True' || literal === 'False';
+    const isCollection = /^[[({]/.test(literal);
+    if (!stringLiteral && !isNumber && !isBoolean && !isCollection) return true;
+
+    if (type.kind === 'enum') return !!stringLiteral && type.values.includes(stringLiteral[2]);
+    if (type.kind === 'number') return isNumber;
+    return isBoolean;
+}
+
+function trimBlankLines(lines: string[]): string[] {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && !lines[start].trim()) start++;
+    while (end > start && !lines[end - 1].trim()) end--;
+    return lines.slice(start, end);
+}
+
+function dedent(lines: string[]): string[] {
+    const trimmed = trimBlankLines(lines);
+    const indents = trimmed.filter(l => l.trim()).map(l => l.match(/^\s*/)![0].length);
+    const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+    return trimmed.map(l => l.slice(minIndent));
+}
@@ -1,6 +1,12 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import fg from 'fast-glob';
+import { Position, TextDocuments } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { findCVarsTag, tokenizeTemplate, TemplateToken } from '../cottonTokenizer';
+import { ComponentDocs, parseComponentDocs } from './componentDocs';
+import { CachedFile, IndexCache, isFresh, statFile } from './indexCache';
 
 const COTTON_BUILTIN_DIRECTIVES = ['vars', 'slot', 'component'];
 
@@ -8,22 +14,42 @@ export interface CVarDefinition {
     name: string;
     defaultValue: string;
     isDjangoExpression: boolean;
+    position: Position;    // Start of the name inside <c-vars>, in the component file
+    required: boolean;     // Listed in a `{# @required ... #}` comment in the component file
 }
 
 export interface ComponentInfo {
     name: string;
     filePath: string;
     cVars: CVarDefinition[];
+    docs?: ComponentDocs;
+    referencedNames: string[];   // Every name the body reads in a template expression (see hasPropReference)
 }
 
+/** What parseComponentFile reads from a component file - cached per file. */
+type ParsedComponentFile = Pick<ComponentInfo, 'cVars' | 'docs' | 'referencedNames'>;
+
 export class ComponentIndex {
     private workspaceRoot: string;
     private templatePatterns: string[];
     private resolvedPathsCache: string[] | null = null;
     private cache: Map<string, ComponentInfo | null> = new Map();
     private allComponentsCache: ComponentInfo[] | null = null;
+    private parsedFiles: Map<string, CachedFile<ParsedComponentFile>> = new Map();
+    private persistentCache: IndexCache<ParsedComponentFile> | null = null;
+    private persistentCacheLoaded: Promise<void> | null = null;
+    private openDocumentParses: Map<string, { version: number; data: ParsedComponentFile }> = new Map();
 
-    constructor(workspaceRoot: string, templatePatterns: string[] = ['templates/cotton']) {
+    /**
+     * With `documents`, component files open in the editor are read from their (possibly
+     * unsaved) buffer instead of from disk, so `<c-vars>` and doc edits show up in completion,
+     * hover and diagnostics before the file is saved.
+     */
+    constructor(
+        workspaceRoot: string,
+        templatePatterns: string[] = ['templates/cotton'],
+        private documents?: TextDocuments<TextDocument>
+    ) {
         this.workspaceRoot = workspaceRoot;
         this.templatePatterns = templatePatterns;
     }
@@ -32,15 +58,145 @@ export class ComponentIndex {
         if (JSON.stringify(this.templatePatterns) !== JSON.stringify(templatePatterns)) {
             this.templatePatterns = templatePatterns;
             this.invalidateCache();
+            // Parsed files are keyed by the template paths they were found under, so a
+            // different configuration starts from (and persists to) a different cache.
+            this.parsedFiles.clear();
+            this.persistentCacheLoaded = null;
         }
     }
 
+    /**
+     * Persist parsed component files to the given cache file between sessions, so a restart
+     * only re-parses components whose mtime or size changed. Within a session, parsed files
+     * are reused the same way, even across invalidateCache.
+     */
+    enablePersistentCache(cacheFile: string) {
+        this.persistentCache = new IndexCache(cacheFile);
+        this.persistentCacheLoaded = null;
+    }
+
     invalidateCache() {
         this.cache.clear();
         this.allComponentsCache = null;
         this.resolvedPathsCache = null;
     }
 
+    /**
+     * Bring the index up to date after a file was created or changed on disk, touching only
+     * what that file affects: a component file is re-parsed (if its mtime or size changed) and
+     * its entries replaced; a new component also drops the cached "not found" lookups, since
+     * one of them may resolve now. Files outside the template paths are ignored, except that a
+     * new file under a glob-configured template path re-resolves the globs, in case it lives in
+     * a directory that didn't exist before. Also called as an open component's buffer changes,
+     * since an open file is parsed from its buffer. Returns whether the file is a component.
+     */
+    async updateFile(filePath: string, isNew = false): Promise<boolean> {
+        const normalizedPath = path.normalize(filePath);
+        if (!await statFile(normalizedPath)) {
+            this.removeFile(normalizedPath);
+            return false;
+        }
+
+        let componentName = await this.getComponentNameForPath(normalizedPath);
+        if (!componentName && isNew && this.templatePatterns.some(p => this.isGlobPattern(p))) {
+            const previousPaths = this.resolvedPathsCache;
+            this.resolvedPathsCache = null;
+            const templatePaths = await this.resolveTemplatePaths();
+            if (JSON.stringify(previousPaths) !== JSON.stringify(templatePaths)) {
+                this.invalidateCache();
+                return false;
+            }
+        }
+        if (!componentName) return false;
+
+        const parsed = await this.parseComponentFile(normalizedPath);
+        let isKnown = false;
+
+        for (const [name, info] of this.cache) {
+            if (info && info.filePath === normalizedPath) {
+                this.cache.set(name, { ...info, ...parsed });
+                isKnown = true;
+            }
+        }
+
+        if (this.allComponentsCache) {
+            const index = this.allComponentsCache.findIndex(c => c.filePath === normalizedPath);
+            if (index !== -1) {
+                this.allComponentsCache[index] = { ...this.allComponentsCache[index], ...parsed };
+                isKnown = true;
+            } else {
+                this.allComponentsCache.push({ name: componentName, filePath: normalizedPath, ...parsed });
+            }
+        }
+
+        if (!isKnown) {
+            // The new file may resolve a name that was cached as missing, or take precedence
+            // over the file a name resolved to before (`card.html` over `card/index.html`).
+            for (const [name, info] of this.cache) {
+                if (!info || name.replace(/_/g, '-') === componentName) {
+                    this.cache.delete(name);
+                }
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Drop a deleted file - or every component under a deleted directory - from the index.
+     * Names that resolved to it are looked up again on next use, so they can fall back to a
+     * component of the same name under another template path.
+     */
+    removeFile(filePath: string) {
+        const normalizedPath = path.normalize(filePath);
+        const isRemoved = (p: string) => p === normalizedPath || p.startsWith(normalizedPath + path.sep);
+
+        for (const [name, info] of this.cache) {
+            if (info && isRemoved(info.filePath)) {
+                this.cache.delete(name);
+            }
+        }
+        if (this.allComponentsCache) {
+            this.allComponentsCache = this.allComponentsCache.filter(c => !isRemoved(c.filePath));
+        }
+        for (const parsedPath of this.parsedFiles.keys()) {
+            if (isRemoved(parsedPath)) {
+                this.parsedFiles.delete(parsedPath);
+            }
+        }
+        for (const parsedPath of this.openDocumentParses.keys()) {
+            if (isRemoved(parsedPath)) {
+                this.openDocumentParses.delete(parsedPath);
+            }
+        }
+    }
+
+    /** Whether a file is a component, i.e. an `.html` file under one of the template paths. */
+    async isComponentFile(filePath: string): Promise<boolean> {
+        return !!await this.getComponentNameForPath(path.normalize(filePath));
+    }
+
+    /**
+     * The component name a file under one of the template paths is registered as (the same
+     * naming getAllComponents uses), or null if it isn't a component file.
+     */
+    private async getComponentNameForPath(filePath: string): Promise<string | null> {
+        if (!filePath.endsWith('.html')) return null;
+
+        for (const templateBasePath of await this.resolveTemplatePaths()) {
+            const relativePath = path.relative(path.join(this.workspaceRoot, templateBasePath), filePath);
+            if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) continue;
+
+            const componentPath = path.basename(relativePath) === 'index.html'
+                ? path.dirname(relativePath)
+                : relativePath.slice(0, -5);
+            // A bare index.html at the root of a template path isn't a component.
+            if (componentPath === '.') continue;
+
+            return componentPath.replace(/[\\/]/g, '.').replace(/_/g, '-');
+        }
+        return null;
+    }
+
     isBuiltinDirective(name: string): boolean {
         return COTTON_BUILTIN_DIRECTIVES.includes(name);
     }
@@ -91,11 +247,10 @@ export class ComponentIndex {
             return null;
         }
 
-        const cVars = await this.parseCVars(filePath);
         const info: ComponentInfo = {
             name: componentName,
             filePath,
-            cVars
+            ...await this.parseComponentFile(filePath)
         };
 
         this.cache.set(componentName, info);
@@ -119,11 +274,33 @@ export class ComponentIndex {
             }
         }
 
+        // Forget files that are no longer components (deleted, or moved out of the template paths).
+        const componentPaths = new Set(components.map(c => c.filePath));
+        for (const filePath of this.parsedFiles.keys()) {
+            if (!componentPaths.has(filePath)) {
+                this.parsedFiles.delete(filePath);
+            }
+        }
+
         this.allComponentsCache = components;
         return components;
     }
 
-    private async findComponentFile(componentName: string): Promise<string | undefined> {
+    /**
+     * Reverse lookup: the component whose template is the given file, if it's inside one of
+     * the configured template paths.
+     */
+    async findComponentByFilePath(filePath: string): Promise<ComponentInfo | null> {
+        const normalizedPath = path.normalize(filePath);
+        const allComponents = await this.getAllComponents();
+        return allComponents.find(c => path.normalize(c.filePath) === normalizedPath) || null;
+    }
+
+    /**
+     * Resolve a component name (e.g. `card.header`) to its template file on disk, trying the
+     * kebab/snake spellings of each path segment and both `name.html` and `name/index.html`.
+     */
+    async findComponentFile(componentName: string): Promise<string | undefined> {
         const tagPath = componentName.replace(/\./g, '/');
         const pathVariations = [
             tagPath,
@@ -153,6 +330,19 @@ export class ComponentIndex {
         return undefined;
     }
 
+    /**
+     * Where a new component with the given name should be created: `name.html` (dots become
+     * subdirectories) under the first configured template path that resolves. Returns undefined
+     * if no template path is configured or no glob pattern matches anything yet.
+     */
+    async getNewComponentFilePath(componentName: string): Promise<string | undefined> {
+        const templatePaths = await this.resolveTemplatePaths();
+        if (templatePaths.length === 0) {
+            return undefined;
+        }
+        return path.join(this.workspaceRoot, templatePaths[0], ...componentName.split('.')) + '.html';
+    }
+
     private async collectTemplateFiles(basePath: string, relativePath: string, items: ComponentInfo[]): Promise<void> {
         try {
             const entries = await fs.promises.readdir(path.join(basePath, relativePath), { withFileTypes: true });
@@ -165,11 +355,10 @@ export class ComponentIndex {
                     try {
                         await fs.promises.access(indexPath);
                         const componentName = currentRelativePath.replace(/[\\/]/g, '.').replace(/_/g, '-');
-                        const cVars = await this.parseCVars(indexPath);
                         items.push({
                             name: componentName,
                             filePath: indexPath,
-                            cVars
+                            ...await this.parseComponentFile(indexPath)
                         });
                     } catch {
                         // No index.html
@@ -179,11 +368,10 @@ export class ComponentIndex {
                 } else if (entry.isFile() && entry.name.endsWith('.html') && entry.name !== 'index.html') {
                     const componentName = currentRelativePath.slice(0, -5).replace(/[\\/]/g, '.').replace(/_/g, '-');
                     const filePath = path.join(basePath, currentRelativePath);
-                    const cVars = await this.parseCVars(filePath);
                     items.push({
                         name: componentName,
                         filePath,
-                        cVars
+                        ...await this.parseComponentFile(filePath)
                     });
                 }
             }
@@ -192,31 +380,129 @@ export class ComponentIndex {
         }
     }
 
-    private async parseCVars(filePath: string): Promise<CVarDefinition[]> {
-        try {
-            const content = await fs.promises.readFile(filePath, 'utf-8');
-            const cVarsMatch = content.match(/<c-vars\s+([^>]+)>/);
-            if (!cVarsMatch) return [];
+    /**
+     * Read a component file's `<c-vars>` declarations and its leading doc block, or reuse the
+     * previous result while the file's mtime and size are unchanged. An open document is parsed
+     * from its buffer instead (once per version), and never written to the persistent cache.
+     */
+    private async parseComponentFile(filePath: string): Promise<ParsedComponentFile> {
+        const openDocument = this.getOpenDocument(filePath);
+        if (openDocument) {
+            const previous = this.openDocumentParses.get(filePath);
+            if (previous && previous.version === openDocument.version) {
+                return previous.data;
+            }
+            const data = this.parseComponentContent(openDocument.getText());
+            this.openDocumentParses.set(filePath, { version: openDocument.version, data });
+            return data;
+        }
+        this.openDocumentParses.delete(filePath);
 
-            const cVars: CVarDefinition[] = [];
-            const attributeRegex = /(:?)(\w(?:[\w-]*\w)?)(?:=["']([^"']*)["'])?/g;
-            let match;
+        const stamp = await statFile(filePath);
+        if (!stamp) return { cVars: [], referencedNames: [] };
 
-            while ((match = attributeRegex.exec(cVarsMatch[1])) !== null) {
-                cVars.push({
-                    name: match[2],
-                    defaultValue: match[3] || '',
-                    isDjangoExpression: match[1] === ':'
-                });
-            }
+        await this.loadPersistentCache();
+        const cached = this.parsedFiles.get(filePath);
+        if (cached && isFresh(cached, stamp)) {
+            return cached.data;
+        }
 
-            return cVars;
+        let parsed: ParsedComponentFile;
+        try {
+            parsed = this.parseComponentContent(await fs.promises.readFile(filePath, 'utf-8'));
         } catch {
-            return [];
+            return { cVars: [], referencedNames: [] };
         }
+
+        this.parsedFiles.set(filePath, { ...stamp, data: parsed });
+        this.persistentCache?.scheduleSave(() => this.getCacheKey(), () => this.parsedFiles);
+        return parsed;
     }
 
+    private parseComponentContent(content: string): ParsedComponentFile {
+        const tokens = tokenizeTemplate(content);
+        return {
+            cVars: this.parseCVars(content, tokens),
+            docs: parseComponentDocs(tokens),
+            referencedNames: this.collectReferencedNames(content, tokens)
+        };
+    }
+
+    /** The editor buffer for a file, if it's open. */
+    private getOpenDocument(filePath: string): TextDocument | undefined {
+        return this.documents?.get(URI.file(filePath).toString());
+    }
+
+    private async loadPersistentCache(): Promise<void> {
+        if (!this.persistentCache) return;
+
+        if (!this.persistentCacheLoaded) {
+            const cacheKey = this.getCacheKey();
+            this.persistentCacheLoaded = this.persistentCache.load(cacheKey).then(files => {
+                // updateSettings may have switched to other template paths while this loaded.
+                if (cacheKey !== this.getCacheKey()) return;
+                for (const [filePath, entry] of files) {
+                    if (!this.parsedFiles.has(filePath)) {
+                        this.parsedFiles.set(filePath, entry);
+                    }
+                }
+            });
+        }
+        await this.persistentCacheLoaded;
+    }
+
+    private getCacheKey(): string {
+        return JSON.stringify({ workspaceRoot: this.workspaceRoot, templatePatterns: this.templatePatterns });
+    }
+
+    private parseCVars(content: string, tokens: TemplateToken[]): CVarDefinition[] {
+        const cVarsTag = findCVarsTag(tokens);
+        if (!cVarsTag) return [];
+
+        const requiredNames = this.parseRequiredPropNames(tokens);
+
+        return cVarsTag.attributes
+            .filter(attribute => !attribute.isEscaped && attribute.name)
+            .map(attribute => ({
+                name: attribute.name,
+                defaultValue: attribute.value || '',
+                isDjangoExpression: attribute.isDynamic,
+                position: this.offsetToPosition(content, attribute.nameEnd - attribute.name.length),
+                required: requiredNames.has(attribute.name.replace(/-/g, '_'))
+            }));
+    }
+
+    /**
+     * Prop names a component author has marked required with a Django comment such as
+     * `{# @required title icon-name #}` (names separated by spaces or commas, up to the end of
+     * the line, so a doc block can go on after them; several tags are allowed). Names are
+     * returned in snake_case so either spelling matches a c-var.
+     */
+    private parseRequiredPropNames(tokens: TemplateToken[]): Set<string> {
+        const names = new Set<string>();
+        for (const token of tokens) {
+            if (token.type !== 'comment' || token.kind === 'html') continue;
+
+            for (const match of token.body.matchAll(/@required\b([^\n@]*)/g)) {
+                match[1].split(/[\s,]+/).filter(Boolean).forEach(name => names.add(name.replace(/-/g, '_')));
+            }
+        }
+        return names;
+    }
+
+    private offsetToPosition(content: string, offset: number): Position {
+        const before = content.substring(0, offset);
+        const line = before.split('\n').length - 1;
+        return Position.create(line, offset - (before.lastIndexOf('\n') + 1));
+    }
+
+    /** A component file's content - from its editor buffer when it's open, otherwise from disk. */
     async getComponentFileContent(filePath: string): Promise<string | null> {
+        const openDocument = this.getOpenDocument(filePath);
+        if (openDocument) {
+            return openDocument.getText();
+        }
+
         try {
             return await fs.promises.readFile(filePath, 'utf-8');
         } catch {
@@ -236,32 +522,97 @@ export class ComponentIndex {
      * contain hyphens. We match against both forms so navigation works either way.
      */
     findPropTargetOffset(content: string, propName: string): { start: number; end: number } | null {
+        const occurrences = this.findPropOccurrences(content, propName);
+        const target = occurrences.find(o => o.inCVars) || occurrences[0];
+        return target ? { start: target.start, end: target.end } : null;
+    }
+
+    /**
+     * Every place a prop appears in a component file, in source order: its declaration inside
+     * <c-vars ...> (`inCVars`, written in attribute form, e.g. `icon-name`) and every reference
+     * to it in a template expression in the body - `{{ }}`, `{% %}`, or a `:dynamic` attribute
+     * value - written in snake_case (e.g. `icon_name`). Dotted lookups like
+     * `{{ item.icon_name }}` are someone else's attribute, not this prop, and string literals
+     * and comments aren't references, so those are skipped.
+     */
+    findPropOccurrences(content: string, propName: string): { start: number; end: number; inCVars: boolean }[] {
         const nameVariants = [...new Set([propName, propName.replace(/-/g, '_'), propName.replace(/_/g, '-')])];
-        const cVarsMatch = content.match(/<c-vars\s+([^>]+)>/);
+        const occurrences: { start: number; end: number; inCVars: boolean }[] = [];
+        const tokens = tokenizeTemplate(content);
+        const cVarsTag = findCVarsTag(tokens);
+
+        if (cVarsTag) {
+            for (const attribute of cVarsTag.attributes) {
+                if (!attribute.isEscaped && nameVariants.includes(attribute.name)) {
+                    const nameStart = attribute.nameEnd - attribute.name.length;
+                    occurrences.push({ start: nameStart, end: attribute.nameEnd, inCVars: true });
+                }
+            }
+        }
 
-        if (cVarsMatch) {
-            const groupOffset = cVarsMatch.index! + cVarsMatch[0].indexOf(cVarsMatch[1]);
-            const attributeRegex = /(:?)(\w(?:[\w-]*\w)?)(?:=["']([^"']*)["'])?/g;
+        // Template expressions can't contain hyphens, so only the underscore spellings apply.
+        const identifierVariants = nameVariants.filter(v => !v.includes('-'));
+        if (identifierVariants.length === 0) return occurrences;
+
+        const identifierRegex = new RegExp(`(?<![\\w.])(?:${identifierVariants.map(v => this.escapeRegex(v)).join('|')})(?!\\w)`, 'g');
+        for (const span of this.getExpressionSpans(tokens, cVarsTag)) {
+            const expression = this.getExpressionText(content, span);
+            identifierRegex.lastIndex = 0;
             let match;
+            while ((match = identifierRegex.exec(expression)) !== null) {
+                const start = span.start + match.index;
+                occurrences.push({ start, end: start + match[0].length, inCVars: false });
+            }
+        }
 
-            while ((match = attributeRegex.exec(cVarsMatch[1])) !== null) {
-                if (nameVariants.includes(match[2])) {
-                    const nameStart = groupOffset + match.index + match[1].length;
-                    return { start: nameStart, end: nameStart + match[2].length };
-                }
+        return occurrences.sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * Every name read in a template expression in the body, by the same rules as
+     * findPropOccurrences - so a prop is in here exactly when it has a non-`<c-vars>` occurrence.
+     */
+    collectReferencedNames(content: string, tokens: TemplateToken[]): string[] {
+        const names = new Set<string>();
+        for (const span of this.getExpressionSpans(tokens, findCVarsTag(tokens))) {
+            for (const match of this.getExpressionText(content, span).matchAll(/(?<![\w.])\w+/g)) {
+                names.add(match[0]);
             }
         }
+        return [...names];
+    }
 
-        const searchFrom = cVarsMatch ? cVarsMatch.index! + cVarsMatch[0].length : 0;
-        const usageRegex = new RegExp(`\\b(?:${nameVariants.map(v => this.escapeRegex(v)).join('|')})\\b`, 'g');
-        usageRegex.lastIndex = searchFrom;
-        const usageMatch = usageRegex.exec(content);
+    /** An expression span's text with string literals blanked out (keeping offsets), so `{% url 'title' %}` isn't a reference. */
+    private getExpressionText(content: string, span: { start: number; end: number }): string {
+        return content.substring(span.start, span.end).replace(/"[^"]*"|'[^']*'/g, literal => ' '.repeat(literal.length));
+    }
 
-        if (usageMatch) {
-            return { start: usageMatch.index, end: usageMatch.index + usageMatch[0].length };
+    /**
+     * The spans of a template that hold Django expressions: the inside of each `{{ }}`, the
+     * arguments of each `{% %}`, and the value of each `:dynamic` attribute - excluding the
+     * component's own <c-vars> declaration.
+     */
+    private getExpressionSpans(tokens: TemplateToken[], cVarsTag: TemplateToken | null): { start: number; end: number }[] {
+        const spans: { start: number; end: number }[] = [];
+        const insideCVars = (offset: number) => !!cVarsTag && offset >= cVarsTag.start && offset < cVarsTag.end;
+
+        for (const token of tokens) {
+            if (insideCVars(token.start)) continue;
+
+            if (token.type === 'variable') {
+                spans.push({ start: token.start + 2, end: token.end - 2 });
+            } else if (token.type === 'templateTag') {
+                spans.push({ start: token.argsStart, end: token.end - 2 });
+            } else if (token.type === 'tag') {
+                for (const attribute of token.attributes) {
+                    if (attribute.isDynamic && attribute.value !== null) {
+                        spans.push({ start: attribute.valueStart, end: attribute.valueEnd });
+                    }
+                }
+            }
         }
 
-        return null;
+        return spans;
     }
 
     private static readonly RESERVED_TEMPLATE_NAMES = new Set([
@@ -277,14 +628,20 @@ export class ComponentIndex {
         const content = await this.getComponentFileContent(filePath);
         if (!content) return new Set();
 
-        const bodyContent = content.replace(/<c-vars\s+[^>]+>/, '');
+        const tokens = tokenizeTemplate(content);
+        const cVarsTag = findCVarsTag(tokens);
         const names = new Set<string>();
-        const patterns = [/\{\{\s*([a-zA-Z_]\w*)/g, /\{%\s*if\s+([a-zA-Z_]\w*)/g];
 
-        for (const pattern of patterns) {
-            let match;
-            while ((match = pattern.exec(bodyContent)) !== null) {
-                names.add(match[1]);
+        for (const token of tokens) {
+            if (cVarsTag && token.start >= cVarsTag.start && token.start < cVarsTag.end) continue;
+
+            if (token.type === 'variable' && token.variable) {
+                names.add(token.variable.name);
+            } else if (token.type === 'templateTag' && token.name === 'if') {
+                const conditionMatch = token.args.match(/^(?:not\s+)?([a-zA-Z_]\w*)/);
+                if (conditionMatch) {
+                    names.add(conditionMatch[1]);
+                }
             }
         }
 
@@ -315,20 +672,22 @@ export class ComponentIndex {
         return referenced.has(slotName);
     }
 
-    private escapeRegex(str: string): string {
-        return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    /**
+     * Whether a component accepts the given prop: it's declared in `<c-vars>`, or the body reads
+     * it anywhere findPropOccurrences looks (under its snake_case form, since that's how Cotton
+     * exposes a kebab-case attribute) - the same check the unused-prop hint makes, so the two
+     * never disagree about whether a prop is read. Answered from the names collected when the
+     * file was parsed, so validation doesn't re-read the component for every attribute.
+     */
+    hasPropReference(component: ComponentInfo, propName: string): boolean {
+        const snakeName = propName.replace(/-/g, '_');
+        if (component.cVars.some(v => v.name === propName || v.name.replace(/-/g, '_') === snakeName)) {
+            return true;
+        }
+        return component.referencedNames.includes(snakeName);
     }
 
-    async getComponentDocumentation(filePath: string): Promise<string | undefined> {
-        try {
-            const content = await fs.promises.readFile(filePath, 'utf-8');
-            const firstLine = content.split('\n')[0].trim();
-            if (firstLine.startsWith('<!--') && firstLine.endsWith('-->')) {
-                return firstLine.slice(4, -3).trim();
-            }
-            return undefined;
-        } catch {
-            return undefined;
-        }
+    private escapeRegex(str: string): string {
+        return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
     }
 }
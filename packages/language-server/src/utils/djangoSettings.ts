@@ -0,0 +1,346 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import fg from 'fast-glob';
+
+/** A component directory found in the project's Django settings. */
+export interface DiscoveredTemplatePath {
+    path: string;     // Relative to the workspace root, as written in `templatePaths`
+    reason: string;   // Where it came from, e.g. "TEMPLATES DIRS entry `BASE_DIR / 'templates'` in mysite/settings.py"
+}
+
+const SETTINGS_GLOBS = ['**/settings.py', '**/settings/*.py'];
+
+const IGNORE_GLOBS = [
+    '**/node_modules/**',
+    '**/.git/**',
+    '**/venv/**',
+    '**/.venv/**',
+    '**/site-packages/**',
+    '**/__pycache__/**'
+];
+
+/** Whether a file is one of the settings modules discoverTemplatePaths reads. */
+export function isDjangoSettingsFile(filePath: string): boolean {
+    return path.basename(filePath) === 'settings.py' ||
+        (path.extname(filePath) === '.py' && path.basename(path.dirname(filePath)) === 'settings');
+}
+
+/**
+ * Work out where Django Cotton looks for components by reading the project's settings
+ * modules (`settings.py` and `settings/*.py`) as text - nothing is imported or executed, so
+ * only the common literal forms are understood:
+ *   - `COTTON_DIR = 'components'` (default `cotton`) - the folder inside each templates dir
+ *   - every `TEMPLATES[...]['DIRS']` entry, as a string, `BASE_DIR / 'x'`,
+ *     `os.path.join(BASE_DIR, 'x')` or `BASE_DIR.joinpath('x')`
+ *   - `templates/` of `COTTON_BASE_DIR` (or `BASE_DIR`), which Cotton always searches
+ *   - `templates/` of each `INSTALLED_APPS` entry that lives in the workspace
+ *     (`INSTALLED_APPS = DJANGO_APPS + LOCAL_APPS` and `+=` are followed)
+ * Path variables such as `BASE_DIR = Path(__file__).resolve().parent.parent` or
+ * `os.path.dirname(os.path.dirname(os.path.abspath(__file__)))` are resolved relative to the
+ * settings file. `TEMPLATES` directories are listed even if their component folder doesn't
+ * exist yet; the others only when it does. Returns paths in Django's search order.
+ */
+export async function discoverTemplatePaths(workspaceRoot: string): Promise<DiscoveredTemplatePath[]> {
+    let settingsFiles: string[];
+    try {
+        settingsFiles = await fg(SETTINGS_GLOBS, {
+            cwd: workspaceRoot,
+            absolute: true,
+            ignore: IGNORE_GLOBS,
+            onlyFiles: true,
+            deep: 6
+        });
+    } catch {
+        return [];
+    }
+
+    const discovered: DiscoveredTemplatePath[] = [];
+    const add = (directory: string, reason: string) => {
+        const relativePath = path.relative(workspaceRoot, directory).split(path.sep).join('/') || '.';
+        if (!discovered.some(d => d.path === relativePath)) {
+            discovered.push({ path: relativePath, reason });
+        }
+    };
+
+    for (const settingsFile of settingsFiles.sort()) {
+        let source: string;
+        try {
+            source = stripComments(await fs.promises.readFile(settingsFile, 'utf-8'));
+        } catch {
+            continue;
+        }
+
+        const fileName = path.relative(workspaceRoot, settingsFile).split(path.sep).join('/');
+        const variables = collectPathVariables(source, settingsFile);
+        const baseDir = variables.get('BASE_DIR') ?? workspaceRoot;
+
+        const cottonDirExpression = findAssignments(source, 'COTTON_DIR').pop();
+        const cottonDir = cottonDirExpression !== undefined ? parseStringLiteral(cottonDirExpression) : null;
+        const componentFolder = cottonDir ?? 'cotton';
+        const cottonDirNote = cottonDir ? ` (COTTON_DIR = '${cottonDir}')` : '';
+
+        // TEMPLATES[...]['DIRS']
+        const templates = findAssignments(source, 'TEMPLATES').pop();
+        if (templates) {
+            for (const dirsMatch of templates.matchAll(/['"]DIRS['"]\s*:\s*/g)) {
+                const list = readBalanced(templates, dirsMatch.index! + dirsMatch[0].length);
+                if (!list) continue;
+                for (const entry of splitTopLevel(stripBrackets(list), ',')) {
+                    const directory = evaluatePath(entry, variables, settingsFile, baseDir);
+                    if (directory) {
+                        add(path.join(directory, componentFolder), `TEMPLATES DIRS entry \`${entry.trim()}\` in ${fileName}${cottonDirNote}`);
+                    }
+                }
+            }
+        }
+
+        // The project's own templates folder
+        const cottonBaseDirExpression = findAssignments(source, 'COTTON_BASE_DIR').pop();
+        const cottonBaseDir = cottonBaseDirExpression ? evaluatePath(cottonBaseDirExpression, variables, settingsFile, baseDir) : null;
+        const projectTemplates = path.join(cottonBaseDir ?? baseDir, 'templates', componentFolder);
+        if ((cottonBaseDir || variables.has('BASE_DIR')) && await isDirectory(projectTemplates)) {
+            add(projectTemplates, `templates folder of ${cottonBaseDir ? 'COTTON_BASE_DIR' : 'BASE_DIR'} in ${fileName}${cottonDirNote}`);
+        }
+
+        // INSTALLED_APPS
+        for (const app of collectInstalledApps(source)) {
+            const appDirectory = await findAppDirectory(app, [baseDir, workspaceRoot], componentFolder);
+            if (appDirectory) {
+                add(path.join(appDirectory, 'templates', componentFolder), `INSTALLED_APPS entry '${app}' in ${fileName}${cottonDirNote}`);
+            }
+        }
+    }
+
+    return discovered;
+}
+
+/**
+ * Every top-level `NAME = ...` whose value evaluates to a path, in order, so later variables
+ * can build on earlier ones (`PROJECT_DIR = BASE_DIR / 'mysite'`).
+ */
+function collectPathVariables(source: string, settingsFile: string): Map<string, string> {
+    const variables = new Map<string, string>();
+    for (const match of source.matchAll(/^([A-Z_][A-Z0-9_]*)\s*=(?!=)\s*/gm)) {
+        const expression = readExpression(source, match.index! + match[0].length);
+        const value = evaluatePath(expression, variables, settingsFile, variables.get('BASE_DIR') ?? path.dirname(settingsFile), true);
+        if (value) {
+            variables.set(match[1], value);
+        }
+    }
+    return variables;
+}
+
+/**
+ * App module names listed in INSTALLED_APPS, following list variables it's built from
+ * (`INSTALLED_APPS = DJANGO_APPS + LOCAL_APPS`) and `INSTALLED_APPS += [...]`.
+ */
+function collectInstalledApps(source: string): string[] {
+    const apps: string[] = [];
+    const visited = new Set<string>();
+
+    const collect = (name: string) => {
+        if (visited.has(name)) return;
+        visited.add(name);
+
+        for (const expression of findAssignments(source, name, true)) {
+            for (const literal of expression.matchAll(/(['"])([\w.]+)\1/g)) {
+                apps.push(literal[2]);
+            }
+            for (const identifier of stripStrings(expression).matchAll(/\b([A-Z_][A-Z0-9_]*)\b/g)) {
+                collect(identifier[1]);
+            }
+        }
+    };
+
+    collect('INSTALLED_APPS');
+    return [...new Set(apps)];
+}
+
+/**
+ * The workspace directory of an installed app that has a component folder. The entry may be
+ * a module (`apps.blog`) or an AppConfig path (`blog.apps.BlogConfig`), so successively shorter
+ * prefixes are tried.
+ */
+async function findAppDirectory(app: string, searchRoots: string[], componentFolder: string): Promise<string | null> {
+    const segments = app.split('.');
+    for (let length = segments.length; length > 0; length--) {
+        for (const root of searchRoots) {
+            const directory = path.join(root, ...segments.slice(0, length));
+            if (await isDirectory(path.join(directory, 'templates', componentFolder))) {
+                return directory;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Evaluate the path expressions settings files use for directories. `relativeTo` is what a
+ * plain relative string is resolved against (Django's working directory is normally the
+ * project root). With `strict`, bare strings aren't treated as paths - used when collecting
+ * variables, where most string assignments are something else.
+ */
+function evaluatePath(
+    expression: string,
+    variables: Map<string, string>,
+    settingsFile: string,
+    relativeTo: string,
+    strict = false
+): string | null {
+    const expr = expression.trim();
+
+    if (expr === '__file__') return settingsFile;
+    if (/^[A-Z_][A-Z0-9_]*$/.test(expr)) return variables.get(expr) ?? null;
+
+    const literal = parseStringLiteral(expr);
+    if (literal !== null) {
+        if (strict) return null;
+        return path.isAbsolute(literal) ? literal : path.join(relativeTo, literal);
+    }
+
+    // a / 'b' / 'c'
+    const parts = splitTopLevel(expr, '/');
+    if (parts.length > 1) {
+        const base = evaluatePath(parts[0], variables, settingsFile, relativeTo, strict);
+        const segments = parts.slice(1).map(parseStringLiteral);
+        return base && segments.every(s => s !== null) ? path.join(base, ...segments as string[]) : null;
+    }
+
+    // (a), str(a), Path(a), os.path.abspath(a), os.path.dirname(a), os.path.join(a, 'b', 'c')
+    const call = expr.match(/^(str|Path|pathlib\.Path|os\.path\.(?:abspath|realpath|normpath|dirname|join))?\(/);
+    if (call && readBalanced(expr, call[0].length - 1)?.length === expr.length - call[0].length + 1) {
+        const [first, ...rest] = splitTopLevel(expr.slice(call[0].length, -1), ',');
+        const base = first ? evaluatePath(first, variables, settingsFile, relativeTo, strict) : null;
+        if (!base) return null;
+        if (call[1] === 'os.path.dirname') return path.dirname(base);
+        if (call[1] !== 'os.path.join') return base;
+
+        const segments = rest.map(parseStringLiteral);
+        return segments.every(s => s !== null) ? path.join(base, ...segments as string[]) : null;
+    }
+
+    // a.parent, a.parents[n], a.resolve(), a.joinpath('b')
+    const method = expr.match(/^([\s\S]+?)\.(parent|parents\[(\d+)\]|resolve\(\)|absolute\(\)|joinpath\(([\s\S]*)\))$/);
+    if (method) {
+        const base = evaluatePath(method[1], variables, settingsFile, relativeTo, strict);
+        if (!base) return null;
+        if (method[2] === 'parent') return path.dirname(base);
+        if (method[3] !== undefined) {
+            let result = base;
+            for (let i = 0; i <= Number(method[3]); i++) result = path.dirname(result);
+            return result;
+        }
+        if (method[4] !== undefined) {
+            const segments = splitTopLevel(method[4], ',').map(parseStringLiteral);
+            return segments.every(s => s !== null) ? path.join(base, ...segments as string[]) : null;
+        }
+        return base;
+    }
+
+    return null;
+}
+
+/** The right-hand sides of every top-level `name = ...` (and, with `appends`, `name += ...`). */
+function findAssignments(source: string, name: string, appends = false): string[] {
+    const pattern = new RegExp(`^${name}\\s*${appends ? '\\+?' : ''}=(?!=)\\s*`, 'gm');
+    return [...source.matchAll(pattern)].map(match => readExpression(source, match.index! + match[0].length));
+}
+
+/** A Python expression starting at `start`: up to the end of the line, unless brackets are still open. */
+function readExpression(source: string, start: number): string {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = start; i < source.length; i++) {
+        const char = source[i];
+        if (quote) {
+            if (char === '\\') i++;
+            else if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if ('([{'.includes(char)) {
+            depth++;
+        } else if (')]}'.includes(char)) {
+            depth--;
+        } else if (char === '\n' && depth <= 0 && source[i - 1] !== '\\') {
+            return source.slice(start, i).trim();
+        }
+    }
+    return source.slice(start).trim();
+}
+
+/** The bracketed text starting at `start` (which must be an opening bracket), brackets included. */
+function readBalanced(source: string, start: number): string | null {
+    if (!'([{'.includes(source[start])) return null;
+
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = start; i < source.length; i++) {
+        const char = source[i];
+        if (quote) {
+            if (char === '\\') i++;
+            else if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if ('([{'.includes(char)) {
+            depth++;
+        } else if (')]}'.includes(char) && --depth === 0) {
+            return source.slice(start, i + 1);
+        }
+    }
+    return null;
+}
+
+/** Split on a separator that's outside brackets and strings, dropping empty parts. */
+function splitTopLevel(expression: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let partStart = 0;
+
+    for (let i = 0; i < expression.length; i++) {
+        const char = expression[i];
+        if (quote) {
+            if (char === '\\') i++;
+            else if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if ('([{'.includes(char)) {
+            depth++;
+        } else if (')]}'.includes(char)) {
+            depth--;
+        } else if (char === separator && depth === 0) {
+            parts.push(expression.slice(partStart, i));
+            partStart = i + 1;
+        }
+    }
+    parts.push(expression.slice(partStart));
+    return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function stripBrackets(list: string): string {
+    return list.slice(1, -1);
+}
+
+/** A plain (optionally r-prefixed) single-line string literal's value, or null. */
+function parseStringLiteral(expression: string): string | null {
+    const match = expression.trim().match(/^r?(['"])((?:\\.|(?!\1)[^\\\n])*)\1$/);
+    return match ? match[2] : null;
+}
+
+/** Remove `#` comments, leaving strings (which may contain `#`) alone. */
+function stripComments(source: string): string {
+    return source.replace(/("""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')|#[^\n]*/g, (match, literal) => literal ?? '');
+}
+
+function stripStrings(expression: string): string {
+    return expression.replace(/"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g, '""');
+}
+
+async function isDirectory(directory: string): Promise<boolean> {
+    try {
+        return (await fs.promises.stat(directory)).isDirectory();
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,106 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Bump whenever the shape of anything ComponentIndex or UsageIndex stores in a cache changes
+ * (or the parsing behind it does), so caches written by an older server are ignored.
+ */
+const CACHE_FORMAT_VERSION = 3;
+
+/** What a cached entry is checked against: a file is re-read when either differs. */
+export interface FileStamp {
+    mtimeMs: number;
+    size: number;
+}
+
+export interface CachedFile<T> extends FileStamp {
+    data: T;
+}
+
+interface CacheFileContents<T> {
+    version: number;
+    key: string;
+    files: Record<string, CachedFile<T>>;
+}
+
+/**
+ * Per-file results of an index, persisted between sessions so startup only re-reads files
+ * whose mtime or size changed. The `key` describes everything else the results depend on
+ * (e.g. the configured template paths); a cache written under a different key or format
+ * version is discarded as a whole. Reads and writes never throw - a missing, corrupt or
+ * unwritable cache just means a full re-scan.
+ */
+export class IndexCache<T> {
+    private writeTimer: NodeJS.Timeout | null = null;
+
+    constructor(private cacheFile: string) {}
+
+    async load(key: string): Promise<Map<string, CachedFile<T>>> {
+        try {
+            const raw = JSON.parse(await fs.promises.readFile(this.cacheFile, 'utf-8')) as CacheFileContents<T>;
+            if (raw.version !== CACHE_FORMAT_VERSION || raw.key !== key || !raw.files) {
+                return new Map();
+            }
+            return new Map(Object.entries(raw.files));
+        } catch {
+            return new Map();
+        }
+    }
+
+    async save(key: string, files: Map<string, CachedFile<T>>): Promise<void> {
+        const contents: CacheFileContents<T> = {
+            version: CACHE_FORMAT_VERSION,
+            key,
+            files: Object.fromEntries(files)
+        };
+
+        // Write-then-rename, so a server killed mid-write never leaves a truncated cache behind.
+        const tempFile = `${this.cacheFile}.${process.pid}.tmp`;
+        try {
+            await fs.promises.mkdir(path.dirname(this.cacheFile), { recursive: true });
+            await fs.promises.writeFile(tempFile, JSON.stringify(contents), 'utf-8');
+            await fs.promises.rename(tempFile, this.cacheFile);
+        } catch {
+            fs.promises.unlink(tempFile).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Save after a short quiet period, so a burst of re-parsed files (e.g. a branch switch)
+     * costs one write. `getFiles` is called when the write happens, not when it's scheduled.
+     */
+    scheduleSave(key: () => string, getFiles: () => Map<string, CachedFile<T>>): void {
+        if (this.writeTimer) {
+            clearTimeout(this.writeTimer);
+        }
+        this.writeTimer = setTimeout(() => {
+            this.writeTimer = null;
+            this.save(key(), getFiles());
+        }, 2000);
+        this.writeTimer.unref();
+    }
+}
+
+export async function statFile(filePath: string): Promise<FileStamp | null> {
+    try {
+        const stats = await fs.promises.stat(filePath);
+        return { mtimeMs: stats.mtimeMs, size: stats.size };
+    } catch {
+        return null;
+    }
+}
+
+export function isFresh(entry: FileStamp | undefined, stamp: FileStamp): boolean {
+    return !!entry && entry.mtimeMs === stamp.mtimeMs && entry.size === stamp.size;
+}
+
+/**
+ * Where to keep the caches for one workspace folder: a folder named after a hash of its path,
+ * under the `cacheDirectory` the client provided (the VS Code extension passes its workspace
+ * storage).
+ */
+export function getCacheDirectory(workspaceRoot: string, baseDirectory: string): string {
+    const folderId = crypto.createHash('sha1').update(path.resolve(workspaceRoot)).digest('hex').slice(0, 16);
+    return path.join(baseDirectory, folderId);
+}
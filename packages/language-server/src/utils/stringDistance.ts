@@ -0,0 +1,42 @@
+/**
+ * Levenshtein edit distance between two strings (insertions, deletions and substitutions all
+ * cost 1). Used to suggest the closest known name for a likely typo.
+ */
+export function editDistance(a: string, b: string): number {
+    if (a === b) return 0;
+    if (a.length === 0) return b.length;
+    if (b.length === 0) return a.length;
+
+    let previousRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+        const currentRow = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+            currentRow.push(Math.min(
+                previousRow[j] + 1,
+                currentRow[j - 1] + 1,
+                previousRow[j - 1] + substitutionCost
+            ));
+        }
+        previousRow = currentRow;
+    }
+
+    return previousRow[b.length];
+}
+
+/**
+ * The candidates close enough to `name` to plausibly be what was meant, closest first. The
+ * allowed distance scales with the name's length, so short names only match near-exact typos.
+ */
+export function findClosestNames(name: string, candidates: string[], limit = 3): string[] {
+    const maxDistance = Math.max(2, Math.floor(name.length / 3));
+
+    return candidates
+        .filter(candidate => candidate !== name)
+        .map(candidate => ({ candidate, distance: editDistance(name.toLowerCase(), candidate.toLowerCase()) }))
+        .filter(({ distance }) => distance <= maxDistance)
+        .sort((x, y) => x.distance - y.distance || x.candidate.localeCompare(y.candidate))
+        .slice(0, limit)
+        .map(({ candidate }) => candidate);
+}
@@ -3,13 +3,32 @@ import * as path from 'path';
 import fg from 'fast-glob';
 import { Location, Range, Position } from 'vscode-languageserver';
 import { URI } from 'vscode-uri';
+import { AttributeToken, tokenizeTemplate } from '../cottonTokenizer';
+import { CachedFile, FileStamp, IndexCache, isFresh } from './indexCache';
+
+/**
+ * One attribute passed on a component usage, e.g. `:count="items|length"` on `<c-badge>`.
+ * `name` has any leading `:` / `::` stripped; `valueRange` is the span inside the quotes.
+ */
+export interface PropUsage {
+    name: string;
+    isDynamic: boolean;
+    isEscaped: boolean;
+    range: Range;
+    value: string | null;
+    valueRange: Range | null;
+}
 
 interface UsageEntry {
     componentName: string;
     uri: string;
     range: Range;
+    props: PropUsage[];
 }
 
+/** The usages found in one file - what's cached per file between sessions. */
+type FileUsages = Omit<UsageEntry, 'uri'>[];
+
 /**
  * Workspace-wide index of where every Cotton component is *used* (as opposed to
  * ComponentIndex, which tracks where components are *defined*). Powers "Find All
@@ -20,13 +39,20 @@ interface UsageEntry {
  * - After that, individual file edits/saves update the index incrementally by
  *   re-scanning only the changed file (cheap: proportional to that file's size),
  *   not the whole workspace.
+ * - With a persistent cache enabled, the full scan reuses each file's usages from the
+ *   previous session unless its mtime or size changed, so a restart only reads new and
+ *   modified files.
  */
 export class UsageIndex {
     private workspaceRoot: string;
     private usagesByComponent: Map<string, UsageEntry[]> = new Map();
     private componentsByUri: Map<string, Set<string>> = new Map();
     private builtPromise: Promise<void> | null = null;
+    private built = false;
     private onChangeCallbacks: (() => void)[] = [];
+    private persistentCache: IndexCache<FileUsages> | null = null;
+    // What the persistent cache is saved from: each file's usages as last read from disk.
+    private diskFiles: Map<string, CachedFile<FileUsages>> = new Map();
 
     private static readonly IGNORE_GLOBS = [
         '**/node_modules/**',
@@ -44,6 +70,10 @@ export class UsageIndex {
         this.workspaceRoot = workspaceRoot;
     }
 
+    enablePersistentCache(cacheFile: string): void {
+        this.persistentCache = new IndexCache(cacheFile);
+    }
+
     onChange(callback: () => void): void {
         this.onChangeCallbacks.push(callback);
     }
@@ -67,51 +97,99 @@ export class UsageIndex {
         this.builtPromise = this.buildFullIndex();
     }
 
+    /**
+     * Whether the full scan has finished, so usage counts are complete. Lets callers that
+     * shouldn't wait for the scan (hover, diagnostics) leave counts out until then.
+     */
+    isBuilt(): boolean {
+        return this.built;
+    }
+
     private async buildFullIndex(): Promise<void> {
+        this.built = false;
         this.usagesByComponent = new Map();
         this.componentsByUri = new Map();
 
-        let files: string[];
+        let files: fg.Entry[];
         try {
             files = await fg('**/*.html', {
                 cwd: this.workspaceRoot,
                 absolute: true,
                 ignore: UsageIndex.IGNORE_GLOBS,
-                onlyFiles: true
+                onlyFiles: true,
+                stats: true
             });
         } catch {
             files = [];
         }
 
+        const cached = this.persistentCache ? await this.persistentCache.load(this.workspaceRoot) : new Map<string, CachedFile<FileUsages>>();
+        const scanned = new Map<string, CachedFile<FileUsages>>();
+
         // Read/scan in small concurrent batches so we don't open thousands of file
         // handles at once on very large workspaces, while still parallelizing I/O.
         const BATCH_SIZE = 25;
         for (let i = 0; i < files.length; i += BATCH_SIZE) {
             const batch = files.slice(i, i + BATCH_SIZE);
-            await Promise.all(batch.map(async filePath => {
-                try {
-                    const content = await fs.promises.readFile(filePath, 'utf-8');
-                    this.indexFileContent(URI.file(filePath).toString(), content);
-                } catch {
-                    // Unreadable file, skip
+            await Promise.all(batch.map(async ({ path: filePath, stats }) => {
+                const stamp = { mtimeMs: stats?.mtimeMs ?? 0, size: stats?.size ?? -1 };
+                const previous = cached.get(filePath);
+                let usages: FileUsages;
+
+                if (previous && isFresh(previous, stamp)) {
+                    usages = previous.data;
+                } else {
+                    try {
+                        usages = this.scanFileContent(await fs.promises.readFile(filePath, 'utf-8'));
+                    } catch {
+                        return; // Unreadable file, skip
+                    }
                 }
+
+                scanned.set(filePath, { ...stamp, data: usages });
+                this.addFileUsages(URI.file(filePath).toString(), usages);
             }));
         }
 
+        // Files that disappeared since the last session simply aren't carried over.
+        this.diskFiles = scanned;
+        await this.persistentCache?.save(this.workspaceRoot, scanned);
+
+        this.built = true;
         this.notifyChange();
     }
 
     /**
      * Incrementally re-index a single file (called on document open/change/save).
-     * Cheap: only rescans the one file, not the whole workspace.
+     * Cheap: only rescans the one file, not the whole workspace. `stamp` is given when
+     * `content` was just read from disk, and the result is then saved to the persistent cache
+     * (after a short quiet period); an unsaved buffer's usages are only kept in memory.
      */
-    updateFile(uri: string, content: string): void {
-        this.removeFile(uri);
-        this.indexFileContent(uri, content);
+    updateFile(uri: string, content: string, stamp?: FileStamp): void {
+        const usages = this.scanFileContent(content);
+        this.removeFileUsages(uri);
+        this.addFileUsages(uri, usages);
+
+        if (stamp) {
+            this.diskFiles.set(URI.parse(uri).fsPath, { ...stamp, data: usages });
+            this.scheduleSave();
+        }
         this.notifyChange();
     }
 
+    /** Drop a deleted file from the index and from the persistent cache. */
     removeFile(uri: string): void {
+        this.removeFileUsages(uri);
+        if (this.diskFiles.delete(URI.parse(uri).fsPath)) {
+            this.scheduleSave();
+        }
+    }
+
+    private scheduleSave(): void {
+        this.persistentCache?.scheduleSave(() => this.workspaceRoot, () => this.diskFiles);
+    }
+
+    private removeFileUsages(uri: string): void {
         const previousComponents = this.componentsByUri.get(uri);
         if (!previousComponents) return;
 
@@ -129,43 +207,58 @@ export class UsageIndex {
         this.componentsByUri.delete(uri);
     }
 
-    private indexFileContent(uri: string, content: string): void {
-        const componentNamesInFile = new Set<string>();
+    /** Every component usage in a file's content. */
+    private scanFileContent(content: string): FileUsages {
+        const usages: FileUsages = [];
         // Computed once per file, then reused via binary search for every offset->position
         // conversion below, so indexing a file stays roughly O(size + usages log lines).
         const newlineOffsets = this.computeNewlineOffsets(content);
 
+        const toRange = (start: number, end: number) => Range.create(
+            this.offsetToPosition(newlineOffsets, start),
+            this.offsetToPosition(newlineOffsets, end)
+        );
+
         // Doc comments routinely show example usage (e.g. `<!-- rendered as <c-card /> -->`,
-        // exactly the pattern getComponentDocumentation()/hover encourage). Blank out comment
-        // bodies (preserving length and newlines, so offsets stay valid) before scanning, so
-        // documentation examples don't get counted as real usages.
-        const scannable = this.stripComments(content);
-
-        // <c-foo ...> and <c-foo /> opening tags
-        const tagRegex = /<c-([\w.-]+)/g;
-        let match;
-        while ((match = tagRegex.exec(scannable)) !== null) {
-            const name = this.normalizeComponentName(match[1]);
-            if (name === 'vars' || name === 'slot' || name === 'component') continue;
-
-            const start = match.index + 1; // skip '<', keep the "c-foo" span (tag name incl. prefix)
-            const end = start + 2 + name.length;
-            this.addUsage(name, uri, newlineOffsets, start, end);
-            componentNamesInFile.add(name);
+        // exactly the pattern component doc blocks encourage with `@example`). The tokenizer
+        // reads comments as opaque comment tokens, so documentation examples never show up
+        // as tags and don't get counted as real usages.
+        for (const token of tokenizeTemplate(content)) {
+            if (token.type !== 'tag' || !token.isCotton || token.isClosing) continue;
+
+            const tagName = this.normalizeComponentName(token.name.slice(2));
+            const props = token.attributes.map(attribute => this.toPropUsage(attribute, toRange));
+
+            // <c-component is="literal.name" /> - static dynamic-component usages. A
+            // `:is="expr"` can't be resolved statically, so only a plain `is` attribute counts.
+            if (tagName === 'component') {
+                const isProp = props.find(p => p.name === 'is' && !p.isDynamic && !p.isEscaped);
+                if (!isProp || !isProp.value || /[{}%]/.test(isProp.value) || !isProp.valueRange) continue;
+
+                usages.push({
+                    componentName: this.normalizeComponentName(isProp.value),
+                    range: isProp.valueRange,
+                    props: props.filter(p => p !== isProp)
+                });
+                continue;
+            }
+            if (tagName === 'vars' || tagName === 'slot') continue;
+
+            // The "c-foo" span (tag name incl. prefix, without the '<')
+            usages.push({ componentName: tagName, range: toRange(token.nameStart, token.nameEnd), props });
         }
 
-        // <c-component is="literal.name" /> - static dynamic-component usages.
-        // Note: requires whitespace (not just a word boundary) immediately before "is", so
-        // the colon-prefixed dynamic-expression form (`:is="expr"`) is correctly excluded -
-        // a plain `\b` would also match right after the colon.
-        const isAttrRegex = /<c-component\b[^>]*?\sis\s*=\s*"([^"{}%]*)"/g;
-        while ((match = isAttrRegex.exec(scannable)) !== null) {
-            const rawName = match[1];
-            if (!rawName) continue;
-            const valueStart = match.index + match[0].lastIndexOf(rawName);
-            const valueEnd = valueStart + rawName.length;
-            this.addUsage(this.normalizeComponentName(rawName), uri, newlineOffsets, valueStart, valueEnd);
-            componentNamesInFile.add(this.normalizeComponentName(rawName));
+        return usages;
+    }
+
+    private addFileUsages(uri: string, usages: FileUsages): void {
+        const componentNamesInFile = new Set<string>();
+
+        for (const { componentName, range, props } of usages) {
+            const entries = this.usagesByComponent.get(componentName) || [];
+            entries.push({ componentName, uri, range, props });
+            this.usagesByComponent.set(componentName, entries);
+            componentNamesInFile.add(componentName);
         }
 
         if (componentNamesInFile.size > 0) {
@@ -183,19 +276,15 @@ export class UsageIndex {
         return name.replace(/_/g, '-');
     }
 
-    private addUsage(componentName: string, uri: string, newlineOffsets: number[], start: number, end: number): void {
-        const range = Range.create(
-            this.offsetToPosition(newlineOffsets, start),
-            this.offsetToPosition(newlineOffsets, end)
-        );
-
-        const entries = this.usagesByComponent.get(componentName) || [];
-        entries.push({ componentName, uri, range });
-        this.usagesByComponent.set(componentName, entries);
-    }
-
-    private stripComments(content: string): string {
-        return content.replace(/<!--[\s\S]*?-->/g, comment => comment.replace(/[^\n]/g, ' '));
+    private toPropUsage(attribute: AttributeToken, toRange: (start: number, end: number) => Range): PropUsage {
+        return {
+            name: attribute.name,
+            isDynamic: attribute.isDynamic,
+            isEscaped: attribute.isEscaped,
+            range: toRange(attribute.nameStart, attribute.nameEnd),
+            value: attribute.value,
+            valueRange: attribute.value !== null ? toRange(attribute.valueStart, attribute.valueEnd) : null
+        };
     }
 
     private computeNewlineOffsets(content: string): number[] {
@@ -239,6 +328,69 @@ export class UsageIndex {
         return this.usagesByComponent.get(this.normalizeComponentName(componentName))?.length || 0;
     }
 
+    /**
+     * Every attribute passed as the given prop on any usage of the given component (the span
+     * of the attribute name as written, e.g. `:variant`). Kebab-case and snake_case spellings
+     * match each other, since Cotton maps `icon-name` to `icon_name` either way. Escaped `::`
+     * attributes are literal pass-throughs, not props, so they never match.
+     */
+    getPropReferences(componentName: string, propName: string): Location[] {
+        return this.getPropUsages(componentName, propName).map(u => Location.create(u.uri, u.prop.range));
+    }
+
+    getPropUsageCount(componentName: string, propName: string): number {
+        return this.getPropUsages(componentName, propName).length;
+    }
+
+    /**
+     * The distinct literal values passed for a prop across the workspace, most frequent first.
+     * Static and `:dynamic` attributes are counted separately (`primary` vs `'primary'`), and
+     * only literals count: static values containing template syntax and dynamic values that
+     * are variables or expressions are skipped. `exclude` skips the value being typed at that
+     * position, so a half-typed value doesn't suggest itself.
+     */
+    getObservedPropValues(
+        componentName: string,
+        propName: string,
+        isDynamic: boolean,
+        exclude?: { uri: string; position: Position }
+    ): { value: string; count: number }[] {
+        const counts = new Map<string, number>();
+
+        for (const { uri, prop } of this.getPropUsages(componentName, propName)) {
+            if (prop.isDynamic !== isDynamic || prop.value === null || !prop.valueRange) continue;
+            if (exclude && uri === exclude.uri &&
+                prop.valueRange.start.line === exclude.position.line &&
+                prop.valueRange.start.character === exclude.position.character) continue;
+
+            const value = prop.value.trim();
+            if (!value || value.includes('\n')) continue;
+            if (isDynamic ? !/^(?:'[^']*'|"[^"]*"|-?\d+(?:\.\d+)?|True|False|None)$/.test(value) : /\{[{%]/.test(value)) continue;
+
+            counts.set(value, (counts.get(value) || 0) + 1);
+        }
+
+        return [...counts.entries()]
+            .map(([value, count]) => ({ value, count }))
+            .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    }
+
+    private getPropUsages(componentName: string, propName: string): { uri: string; prop: PropUsage }[] {
+        const entries = this.usagesByComponent.get(this.normalizeComponentName(componentName)) || [];
+        const normalizedProp = propName.replace(/-/g, '_');
+        const usages: { uri: string; prop: PropUsage }[] = [];
+
+        for (const entry of entries) {
+            for (const prop of entry.props) {
+                if (!prop.isEscaped && prop.name.replace(/-/g, '_') === normalizedProp) {
+                    usages.push({ uri: entry.uri, prop });
+                }
+            }
+        }
+
+        return usages;
+    }
+
     /**
      * File paths (absolute, fs-style) of every known component that has zero usages
      * anywhere in the indexed workspace files.
@@ -0,0 +1,26 @@
+import * as assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { tokenizeTemplate } from '../src/cottonTokenizer';
+import { parseComponentDocs } from '../src/utils/componentDocs';
+
+function parse(content: string) {
+    return parseComponentDocs(tokenizeTemplate(content));
+}
+
+describe('parseComponentDocs', () => {
+    it('reads the replacement of a deprecated component', () => {
+        assert.equal(parse('{# @deprecated Use c-panel #}')?.replacement, 'panel');
+        assert.equal(parse('{# @deprecated Use <c-panel> instead #}')?.replacement, 'panel');
+        assert.equal(parse('{# @deprecated use c-forms.input instead #}')?.replacement, 'forms.input');
+    });
+
+    it('leaves a sentence-ending period out of the replacement', () => {
+        assert.equal(parse('{# @deprecated Use c-panel. #}')?.replacement, 'panel');
+        assert.equal(parse('{# @deprecated Use c-forms.input. #}')?.replacement, 'forms.input');
+    });
+
+    it('reads the replacement of a deprecated prop', () => {
+        const docs = parse('{# @param colour @deprecated use color. #}');
+        assert.deepEqual(docs?.params.map(p => [p.name, p.replacement]), [['colour', 'color']]);
+    });
+});
@@ -0,0 +1,132 @@
+import * as assert from 'assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { ComponentIndex } from '../src/utils/componentIndex';
+
+const FILES: Record<string, string> = {
+    'templates/cotton/btn.html': '<c-vars size="md" />\n<button>{{ size }}</button>',
+    'templates/cotton/card/index.html': '<c-vars title />\n<div>{{ title }}</div>',
+    'templates/pages/home.html': '<c-btn size="lg" /><c-card title="Hi" />'
+};
+
+/**
+ * Run `test` against a fresh workspace holding FILES, with its ComponentIndex already built
+ * and `reads` listing every file read through `fs.promises.readFile` since then.
+ */
+async function withWorkspace(
+    test: (root: string, index: ComponentIndex, reads: string[]) => Promise<void>
+): Promise<void> {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'cotton-index-'));
+    for (const [file, content] of Object.entries(FILES)) {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), content);
+    }
+
+    const index = new ComponentIndex(root);
+    await index.getAllComponents();
+
+    const reads: string[] = [];
+    const readFile = fs.promises.readFile;
+    fs.promises.readFile = ((file: fs.PathLike, ...rest: unknown[]) => {
+        reads.push(String(file));
+        return (readFile as (...args: unknown[]) => Promise<unknown>)(file, ...rest);
+    }) as typeof fs.promises.readFile;
+
+    try {
+        await test(root, index, reads);
+    } finally {
+        fs.promises.readFile = readFile;
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+}
+
+async function componentNames(index: ComponentIndex): Promise<string[]> {
+    return (await index.getAllComponents()).map(c => c.name).sort();
+}
+
+describe('ComponentIndex file events', () => {
+    it('reads only a created component', async () => {
+        await withWorkspace(async (root, index, reads) => {
+            const filePath = path.join(root, 'templates/cotton/alert.html');
+            fs.writeFileSync(filePath, '<c-vars tone="info" />');
+
+            assert.equal(await index.updateFile(filePath, true), true);
+            assert.deepEqual(await componentNames(index), ['alert', 'btn', 'card']);
+            assert.deepEqual((await index.findComponent('alert'))?.cVars.map(v => v.name), ['tone']);
+            assert.deepEqual(reads, [filePath]);
+        });
+    });
+
+    it('reads only a changed component', async () => {
+        await withWorkspace(async (root, index, reads) => {
+            const filePath = path.join(root, 'templates/cotton/btn.html');
+            fs.writeFileSync(filePath, '<c-vars size="md" disabled />\n<button>{{ size }}</button>');
+
+            assert.equal(await index.updateFile(filePath), true);
+            assert.deepEqual((await index.findComponent('btn'))?.cVars.map(v => v.name), ['size', 'disabled']);
+            assert.deepEqual(await componentNames(index), ['btn', 'card']);
+            assert.deepEqual(reads, [filePath]);
+        });
+    });
+
+    it('reads nothing for a deleted component', async () => {
+        await withWorkspace(async (root, index, reads) => {
+            const directory = path.join(root, 'templates/cotton/card');
+            fs.rmSync(directory, { recursive: true });
+
+            index.removeFile(directory);
+            assert.deepEqual(await componentNames(index), ['btn']);
+            assert.equal(await index.findComponent('card'), null);
+            assert.deepEqual(reads, []);
+        });
+    });
+
+    it('ignores a template outside the template paths', async () => {
+        await withWorkspace(async (root, index, reads) => {
+            const filePath = path.join(root, 'templates/pages/home.html');
+            fs.writeFileSync(filePath, '<c-btn size="sm" />');
+
+            assert.equal(await index.updateFile(filePath), false);
+            assert.equal(await index.updateFile(filePath, true), false);
+            assert.deepEqual(await componentNames(index), ['btn', 'card']);
+            assert.deepEqual(reads, []);
+        });
+    });
+
+    it('answers prop references from the parsed file without reading it again', async () => {
+        await withWorkspace(async (root, index, reads) => {
+            const filePath = path.join(root, 'templates/cotton/list.html');
+            fs.writeFileSync(filePath, '<c-vars title />\n{% for item in items %}{{ item.label }}{% endfor %}{% url "heading" %}');
+            await index.updateFile(filePath, true);
+            reads.length = 0;
+
+            const component = await index.findComponent('list');
+            assert.ok(component);
+            assert.equal(index.hasPropReference(component, 'title'), true);
+            assert.equal(index.hasPropReference(component, 'items'), true);
+            assert.equal(index.hasPropReference(component, 'label'), false);
+            assert.equal(index.hasPropReference(component, 'heading'), false);
+            assert.deepEqual(reads, []);
+        });
+    });
+
+    it('reads @required names up to the end of their line', async () => {
+        await withWorkspace(async (root, index) => {
+            const filePath = path.join(root, 'templates/cotton/hero.html');
+            fs.writeFileSync(filePath, [
+                '{#',
+                '    A page header.',
+                '    @required title, icon-name',
+                '    Shows a subtitle under the title.',
+                '#}',
+                '<c-vars title icon-name subtitle shows />'
+            ].join('\n'));
+            await index.updateFile(filePath, true);
+
+            const component = await index.findComponent('hero');
+            assert.deepEqual(component?.cVars.filter(v => v.required).map(v => v.name), ['title', 'icon-name']);
+        });
+    });
+});
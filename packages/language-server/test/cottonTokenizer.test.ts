@@ -0,0 +1,194 @@
+import * as assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import {
+    buildBlockStructure,
+    findCVarsTag,
+    TagToken,
+    TemplateToken,
+    tokenizeTemplate
+} from '../src/cottonTokenizer';
+
+/** A compact, comparable form of a token list: `<c-card title="a">` -> `tag c-card title="a"`. */
+function describeTokens(tokens: TemplateToken[]): string[] {
+    return tokens.map(token => {
+        switch (token.type) {
+            case 'tag': {
+                const attributes = token.attributes.map(a => a.value === null ? a.rawName : `${a.rawName}="${a.value}"`);
+                const name = `${token.isClosing ? '/' : ''}${token.name}${token.isSelfClosing ? '/' : ''}`;
+                return ['tag', name, ...attributes].join(' ');
+            }
+            case 'variable':
+                return `var ${token.expression}`;
+            case 'templateTag':
+                return `tag% ${token.name}${token.args ? ' ' + token.args : ''}`;
+            case 'comment':
+                return `comment ${token.kind} ${token.body}`;
+        }
+    });
+}
+
+function tags(content: string): TagToken[] {
+    return tokenizeTemplate(content).filter((t): t is TagToken => t.type === 'tag');
+}
+
+function blockErrors(content: string): string[] {
+    return buildBlockStructure(tokenizeTemplate(content)).errors.map(e => e.message);
+}
+
+describe('tokenizeTemplate', () => {
+    it('keeps `>` inside quoted attribute values', () => {
+        const content = '<c-card title="a > b" :count="items|length > 1">body</c-card>';
+        assert.deepEqual(describeTokens(tokenizeTemplate(content)), [
+            'tag c-card title="a > b" :count="items|length > 1"',
+            'tag /c-card'
+        ]);
+    });
+
+    it('reads attribute offsets and kinds', () => {
+        const content = '<c-btn :size="big" ::x-on="y" label />';
+        const [tag] = tags(content);
+        const [size, escaped, label] = tag.attributes;
+
+        assert.equal(size.name, 'size');
+        assert.equal(size.isDynamic, true);
+        assert.equal(content.substring(size.valueStart, size.valueEnd), 'big');
+        assert.equal(escaped.name, 'x-on');
+        assert.equal(escaped.isEscaped, true);
+        assert.equal(escaped.isDynamic, false);
+        assert.equal(label.value, null);
+        assert.equal(label.valueStart, -1);
+        assert.equal(content.substring(tag.nameStart, tag.nameEnd), 'c-btn');
+        assert.equal(tag.isSelfClosing, true);
+    });
+
+    it('reads a multi-line <c-vars>', () => {
+        const content = '<c-vars\n    title="Hi"\n    :count="3"\n    disabled\n/>\n<p>{{ title }}</p>';
+        const tokens = tokenizeTemplate(content);
+        const cVars = findCVarsTag(tokens);
+
+        assert.ok(cVars);
+        assert.deepEqual(cVars.attributes.map(a => [a.rawName, a.value]), [
+            ['title', 'Hi'],
+            [':count', '3'],
+            ['disabled', null]
+        ]);
+        assert.equal(content.substring(cVars.start, cVars.end), '<c-vars\n    title="Hi"\n    :count="3"\n    disabled\n/>');
+        assert.deepEqual(describeTokens(tokens).slice(1), ['tag p', 'var title', 'tag /p']);
+    });
+
+    it('reads `{% %}` and `{{ }}` inside a tag and inside quoted values', () => {
+        const content = '<div {% if active %}class="on"{% endif %} title="{{ t|upper }}" data-url="{% url \'home\' %}">x</div>';
+        assert.deepEqual(describeTokens(tokenizeTemplate(content)), [
+            'tag div class="on" title="{{ t|upper }}" data-url="{% url \'home\' %}"',
+            'tag% if active',
+            'tag% endif',
+            'var t|upper',
+            'tag% url \'home\'',
+            'tag /div'
+        ]);
+    });
+
+    it('does not end a tag at a `>` inside template syntax', () => {
+        const content = '<c-alert {% if count > 1 %}plural{% endif %} :items="{{ a > b }}" /><c-next />';
+        assert.deepEqual(tags(content).map(t => t.name), ['c-alert', 'c-next']);
+    });
+
+    it('reads `{# #}`, `<!-- -->` and `{% comment %}` regions as opaque comments', () => {
+        const content = '{# <c-hidden /> #}<!-- <c-also /> -->{% comment "why" %}<c-gone />{{ x }}{% endcomment %}<c-shown />';
+        assert.deepEqual(describeTokens(tokenizeTemplate(content)), [
+            'comment django  <c-hidden /> ',
+            'comment html  <c-also /> ',
+            'comment commentBlock <c-gone />{{ x }}',
+            'tag c-shown/'
+        ]);
+    });
+
+    it('reads template syntax inside `<!-- -->`, which Django still runs', () => {
+        const content = '<!-- <c-old /> {% if debug %}{{ x }}{% endif %} --><c-new />';
+        assert.deepEqual(describeTokens(tokenizeTemplate(content)), [
+            'comment html  <c-old /> {% if debug %}{{ x }}{% endif %} ',
+            'tag% if debug',
+            'var x',
+            'tag% endif',
+            'tag c-new/'
+        ]);
+    });
+
+    it('only reads template syntax inside <script> and <style>', () => {
+        const content = '<script>if (a < b) { el.innerHTML = "<c-fake>"; } const v = {{ val }};</script><style>a > b {}</style><c-real />';
+        assert.deepEqual(describeTokens(tokenizeTemplate(content)), [
+            'tag script',
+            'var val',
+            'tag /script',
+            'tag style',
+            'tag /style',
+            'tag c-real/'
+        ]);
+    });
+
+    it('reads nothing inside {% verbatim %}', () => {
+        const content = '{% verbatim %}<c-raw /> {{ not_a_var }} {% if %}{% endverbatim %}<c-after />';
+        assert.deepEqual(describeTokens(tokenizeTemplate(content)), [
+            'tag% verbatim',
+            'tag% endverbatim',
+            'tag c-after/'
+        ]);
+    });
+});
+
+describe('buildBlockStructure', () => {
+    it('nests blocks and collects their branches', () => {
+        const { blocks, errors } = buildBlockStructure(tokenizeTemplate(
+            '{% if a %}{% for x in y %}{% empty %}{% endfor %}{% elif b %}{% else %}{% endif %}'
+        ));
+
+        assert.deepEqual(errors, []);
+        assert.equal(blocks.length, 1);
+        assert.equal(blocks[0].open.name, 'if');
+        assert.deepEqual(blocks[0].branches.map(t => t.name), ['elif', 'else']);
+        assert.equal(blocks[0].close?.name, 'endif');
+        assert.equal(blocks[0].children[0].open.name, 'for');
+        assert.deepEqual(blocks[0].children[0].branches.map(t => t.name), ['empty']);
+    });
+
+    it('ignores custom tags', () => {
+        assert.deepEqual(blockErrors('{% load cotton %}{% mytag %}{% endmytag %}{% url "x" %}'), []);
+    });
+
+    it('reports an end tag that closes the wrong block', () => {
+        const { errors } = buildBlockStructure(tokenizeTemplate('{% if a %}{% for x in y %}{% endif %}'));
+        assert.deepEqual(errors.map(e => [e.token.name, e.message]), [
+            ['for', '{% for %} is closed by {% endif %} instead of {% endfor %}']
+        ]);
+    });
+
+    it('reports an end tag with no opener', () => {
+        assert.deepEqual(blockErrors('{% with a=1 %}{% endwith %}{% endfor %}'), [
+            '{% endfor %} has no matching {% for %}'
+        ]);
+    });
+
+    it('reports a block that is never closed', () => {
+        const { errors } = buildBlockStructure(tokenizeTemplate('{% block content %}{% if a %}{% endblock %}{% with b=1 %}'));
+        assert.deepEqual(errors.map(e => [e.token.name, e.message]), [
+            ['if', '{% if %} is closed by {% endblock %} instead of {% endif %}'],
+            ['with', '{% with %} is never closed (expected {% endwith %})']
+        ]);
+    });
+
+    it('reports an intermediate tag outside a block that allows it', () => {
+        assert.deepEqual(blockErrors('{% with a=1 %}{% empty %}{% endwith %}{% else %}'), [
+            '{% empty %} must be inside a {% for %} block',
+            '{% else %} must be inside a {% if %} or {% ifchanged %} or {% ifequal %} or {% ifnotequal %} block'
+        ]);
+    });
+
+    it('counts block tags inside HTML comments', () => {
+        assert.deepEqual(blockErrors('{% if x %}<!-- {% endif %} -->'), []);
+        assert.deepEqual(blockErrors('<!-- {% if x %} -->'), ['{% if %} is never closed (expected {% endif %})']);
+    });
+
+    it('ignores block tags inside Django comments and {% verbatim %}', () => {
+        assert.deepEqual(blockErrors('{# {% if %} #}{% comment %}{% for %}{% endcomment %}{% verbatim %}{% endif %}{% endverbatim %}'), []);
+    });
+});
@@ -0,0 +1,105 @@
+import * as assert from 'assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { discoverTemplatePaths, isDjangoSettingsFile } from '../src/utils/djangoSettings';
+
+/**
+ * Discover the template paths of a fresh project holding `files` (a path ending in `/` is
+ * an empty directory), removed afterwards.
+ */
+async function discoverIn(files: Record<string, string>): Promise<string[]> {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'cotton-django-'));
+    try {
+        for (const [file, content] of Object.entries(files)) {
+            const filePath = path.join(root, file);
+            if (file.endsWith('/')) {
+                fs.mkdirSync(filePath, { recursive: true });
+            } else {
+                fs.mkdirSync(path.dirname(filePath), { recursive: true });
+                fs.writeFileSync(filePath, content);
+            }
+        }
+        return (await discoverTemplatePaths(root)).map(d => d.path);
+    } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+}
+
+const TEMPLATES = (dirs: string) => `
+TEMPLATES = [
+    {
+        "BACKEND": "django.template.backends.django.DjangoTemplates",
+        "DIRS": [${dirs}],
+        "APP_DIRS": True,
+    },
+]
+`;
+
+describe('discoverTemplatePaths', () => {
+    it('resolves BASE_DIR = Path(__file__).resolve().parent.parent', async () => {
+        assert.deepEqual(await discoverIn({
+            'mysite/settings.py': 'from pathlib import Path\nBASE_DIR = Path(__file__).resolve().parent.parent\n' +
+                TEMPLATES('BASE_DIR / "templates"')
+        }), ['templates/cotton']);
+    });
+
+    it('resolves os.path.join(BASE_DIR, "templates") with a nested os.path.dirname BASE_DIR', async () => {
+        assert.deepEqual(await discoverIn({
+            'mysite/settings.py': 'import os\nBASE_DIR = os.path.dirname(os.path.dirname(os.path.abspath(__file__)))\n' +
+                TEMPLATES('os.path.join(BASE_DIR, "templates"), os.path.join(BASE_DIR, "extra", "tpl")')
+        }), ['templates/cotton', 'extra/tpl/cotton']);
+    });
+
+    it('resolves BASE_DIR from a settings package', async () => {
+        assert.deepEqual(await discoverIn({
+            'mysite/settings/base.py': 'from pathlib import Path\nBASE_DIR = Path(__file__).resolve().parent.parent.parent\n' +
+                TEMPLATES('BASE_DIR.joinpath("templates")')
+        }), ['templates/cotton']);
+    });
+
+    it('follows INSTALLED_APPS = A + B and +=', async () => {
+        assert.deepEqual(await discoverIn({
+            'mysite/settings.py': [
+                'from pathlib import Path',
+                'BASE_DIR = Path(__file__).resolve().parent.parent',
+                'DJANGO_APPS = ["django.contrib.admin", "django_cotton"]',
+                'LOCAL_APPS = [',
+                '    "blog.apps.BlogConfig",  # the blog',
+                '    "apps.shop",',
+                ']',
+                'INSTALLED_APPS = DJANGO_APPS + LOCAL_APPS',
+                'INSTALLED_APPS += ["extras"]',
+                '# INSTALLED_APPS += ["commented"]'
+            ].join('\n'),
+            'blog/templates/cotton/': '',
+            'apps/shop/templates/cotton/': '',
+            'extras/templates/cotton/': '',
+            'commented/templates/cotton/': '',
+            'notinstalled/templates/cotton/': ''
+        }), ['blog/templates/cotton', 'apps/shop/templates/cotton', 'extras/templates/cotton']);
+    });
+
+    it('looks for COTTON_DIR inside each templates directory', async () => {
+        assert.deepEqual(await discoverIn({
+            'mysite/settings.py': 'from pathlib import Path\nBASE_DIR = Path(__file__).resolve().parent.parent\nCOTTON_DIR = "components"\n' +
+                'INSTALLED_APPS = ["blog"]\n' + TEMPLATES('BASE_DIR / "shared"'),
+            'templates/components/': '',
+            'blog/templates/components/': ''
+        }), ['shared/components', 'templates/components', 'blog/templates/components']);
+    });
+
+    it('finds nothing without settings', async () => {
+        assert.deepEqual(await discoverIn({ 'templates/cotton/btn.html': '<c-vars />' }), []);
+    });
+});
+
+describe('isDjangoSettingsFile', () => {
+    it('matches settings.py and modules of a settings package', () => {
+        assert.equal(isDjangoSettingsFile(path.join('mysite', 'settings.py')), true);
+        assert.equal(isDjangoSettingsFile(path.join('mysite', 'settings', 'production.py')), true);
+        assert.equal(isDjangoSettingsFile(path.join('mysite', 'urls.py')), false);
+        assert.equal(isDjangoSettingsFile(path.join('mysite', 'settings', 'notes.txt')), false);
+    });
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { CachedFile, getCacheDirectory, IndexCache, isFresh, statFile } from '../src/utils/indexCache';
+
+/** Run `test` with a fresh temporary directory, removed afterwards. */
+async function withDirectory(test: (directory: string) => Promise<void>): Promise<void> {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cotton-cache-'));
+    try {
+        await test(directory);
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+}
+
+const ENTRIES = new Map<string, CachedFile<string[]>>([
+    ['/ws/templates/cotton/btn.html', { mtimeMs: 1000, size: 42, data: ['size'] }]
+]);
+
+describe('IndexCache', () => {
+    it('loads what it saved under the same key', async () => {
+        await withDirectory(async directory => {
+            const cache = new IndexCache<string[]>(path.join(directory, 'nested', 'index.json'));
+            await cache.save('key', ENTRIES);
+
+            assert.deepEqual(await cache.load('key'), ENTRIES);
+            assert.deepEqual(fs.readdirSync(path.join(directory, 'nested')), ['index.json']);
+        });
+    });
+
+    it('discards a cache saved under another key', async () => {
+        await withDirectory(async directory => {
+            const cache = new IndexCache<string[]>(path.join(directory, 'index.json'));
+            await cache.save('templates/cotton', ENTRIES);
+
+            assert.equal((await cache.load('components')).size, 0);
+        });
+    });
+
+    it('discards a cache written in another format version', async () => {
+        await withDirectory(async directory => {
+            const cacheFile = path.join(directory, 'index.json');
+            const cache = new IndexCache<string[]>(cacheFile);
+            await cache.save('key', ENTRIES);
+
+            const contents = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'));
+            fs.writeFileSync(cacheFile, JSON.stringify({ ...contents, version: contents.version - 1 }));
+            assert.equal((await cache.load('key')).size, 0);
+        });
+    });
+
+    it('treats a missing or corrupt cache as empty', async () => {
+        await withDirectory(async directory => {
+            const cacheFile = path.join(directory, 'index.json');
+            const cache = new IndexCache<string[]>(cacheFile);
+            assert.equal((await cache.load('key')).size, 0);
+
+            fs.writeFileSync(cacheFile, '{"version": ');
+            assert.equal((await cache.load('key')).size, 0);
+        });
+    });
+});
+
+describe('file stamps', () => {
+    it('is fresh only when both mtime and size match', () => {
+        const entry = { mtimeMs: 1000, size: 42 };
+        assert.equal(isFresh(entry, { mtimeMs: 1000, size: 42 }), true);
+        assert.equal(isFresh(entry, { mtimeMs: 2000, size: 42 }), false);
+        assert.equal(isFresh(entry, { mtimeMs: 1000, size: 43 }), false);
+        assert.equal(isFresh(undefined, { mtimeMs: 1000, size: 42 }), false);
+    });
+
+    it('stamps a file with its mtime and size, and a missing file with null', async () => {
+        await withDirectory(async directory => {
+            const filePath = path.join(directory, 'btn.html');
+            fs.writeFileSync(filePath, '<c-vars />');
+            const stats = fs.statSync(filePath);
+
+            assert.deepEqual(await statFile(filePath), { mtimeMs: stats.mtimeMs, size: 10 });
+            assert.equal(await statFile(path.join(directory, 'missing.html')), null);
+        });
+    });
+});
+
+describe('getCacheDirectory', () => {
+    it('gives each workspace folder its own subfolder of the client directory', () => {
+        const first = getCacheDirectory('/projects/a', '/storage');
+        const second = getCacheDirectory('/projects/b', '/storage');
+
+        assert.equal(path.dirname(first), path.resolve('/storage'));
+        assert.notEqual(first, second);
+        assert.equal(getCacheDirectory('/projects/a/', '/storage'), first);
+    });
+});
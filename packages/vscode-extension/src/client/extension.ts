@@ -10,6 +10,14 @@ import { UnusedComponentDecorationProvider } from './unusedComponentDecorations'
 
 let client: LanguageClient;
 
+/** One workspace folder's entry in the server's `cotton/templatePaths` response. */
+interface TemplatePathsReport {
+    folder: string;
+    source: 'configured' | 'discovered' | 'default';
+    templatePaths: string[];
+    discovered: { path: string; reason: string }[];
+}
+
 function getServerModule(): string {
     return require.resolve('django-cotton-lsp/out/server.js');
 }
@@ -35,7 +43,9 @@ export function activate(context: ExtensionContext) {
     // Watch all HTML files on disk (not just open editors) so the server's component and
     // usage indexes stay accurate even for files changed outside VS Code (git, terminal, etc).
     const fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.html');
-    context.subscriptions.push(fileWatcher);
+    // Django settings modules, so template paths discovered from them follow their edits.
+    const settingsWatchers = ['**/settings.py', '**/settings/*.py'].map(pattern => vscode.workspace.createFileSystemWatcher(pattern));
+    context.subscriptions.push(fileWatcher, ...settingsWatchers);
 
     // Client options - which documents the server handles
     const clientOptions: LanguageClientOptions = {
@@ -44,8 +54,12 @@ export function activate(context: ExtensionContext) {
             { scheme: 'file', language: 'django-html' }
         ],
         synchronize: {
-            fileEvents: fileWatcher
-        }
+            fileEvents: [fileWatcher, ...settingsWatchers]
+        },
+        // Where the server persists its component and usage indexes between sessions
+        initializationOptions: context.storageUri
+            ? { cacheDirectory: context.storageUri.fsPath }
+            : undefined
     };
 
     // Create and start the client
@@ -93,6 +107,33 @@ export function activate(context: ExtensionContext) {
         })
     );
 
+    const templatePathsChannel = vscode.window.createOutputChannel('Django Cotton Template Paths');
+    context.subscriptions.push(templatePathsChannel);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('djangoCotton.showTemplatePaths', async () => {
+            const folders = await client.sendRequest<TemplatePathsReport[]>('cotton/templatePaths');
+
+            templatePathsChannel.clear();
+            for (const folder of folders) {
+                templatePathsChannel.appendLine(vscode.Uri.parse(folder.folder).fsPath);
+
+                if (folder.source === 'configured') {
+                    templatePathsChannel.appendLine('  Configured (djangoCotton.templatePaths or cotton.config.json):');
+                    folder.templatePaths.forEach(p => templatePathsChannel.appendLine(`    ${p}`));
+                } else if (folder.source === 'discovered') {
+                    templatePathsChannel.appendLine('  Discovered from Django settings:');
+                    folder.discovered.forEach(d => templatePathsChannel.appendLine(`    ${d.path}  <- ${d.reason}`));
+                } else {
+                    templatePathsChannel.appendLine('  Nothing configured or found in Django settings, using the default:');
+                    folder.templatePaths.forEach(p => templatePathsChannel.appendLine(`    ${p}`));
+                }
+                templatePathsChannel.appendLine('');
+            }
+            templatePathsChannel.show(true);
+        })
+    );
+
     // Start the client (also launches the server)
     client.start().then(() => {
         client.onNotification('cotton/unusedComponents', (params: { uris: string[] }) => {